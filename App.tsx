@@ -1,29 +1,37 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AudioFileData, TranscriptionResult, TranscriptionSegment } from './types';
-import { transcribeAudio, translateSegments, timestampToSeconds } from './services/geminiService';
-import SegmentItem from './components/SegmentItem';
+import { AudioChunk, AudioFileData, ChunkProgress as ChunkProgressData, Glossary, PaneConfig, SessionSnapshot, SessionSummary, TranscriptionResult, TranscriptionSegment } from './types';
+import { transcribeChunk, mergeChunkSegments, spliceChunkSegments, translateSegments, timestampToSeconds, secondsToTimestamp, enforceMonotonicity } from './services/geminiService';
+import TranscriptionPane, { PANE_ACCENTS } from './components/TranscriptionPane';
+import DiffView from './components/DiffView';
+import ReferenceBar from './components/ReferenceBar';
+import HistorySidebar from './components/HistorySidebar';
+import GlossaryPanel from './components/GlossaryPanel';
+import WaveformTimeline from './components/WaveformTimeline';
+import { SpeechRegion, analyzeSpeech } from './utils/vad';
+import { EMPTY_HISTORY, EditHistory, recordEdit, redoEdit, undoEdit } from './utils/segmentEditing';
+import PlaybackControls, { AbLoop } from './components/PlaybackControls';
+import SearchPanel from './components/SearchPanel';
+import { DEFAULT_SEARCH, ReplaceChange, SearchOptions, TextMatch, applyReplace, buildPattern, findMatches } from './utils/search';
+import { PLAYBACK_RATES, PlaybackAction, PlaybackSettings, hasModifier, hotkeyFromEvent, loadPlaybackSettings, savePlaybackSettings } from './utils/playback';
+import { LINT_TARGETS, LintIssue, LintLevel, LintRuleId, applyLintFix } from './utils/subtitleLint';
+import { prepareAudioChunks, wholeFileChunk, readBlobAsBase64, decodeBase64, loadWaveform, WaveformData } from './utils/audio';
 import * as Exporters from './utils/exporters';
-
-const LANGUAGES = [
-  "Afrikaans", "Albanian", "Amharic", "Arabic", "Armenian", "Azerbaijani",
-  "Basque", "Belarusian", "Bengali", "Bosnian", "Bulgarian", "Catalan",
-  "Cebuano", "Chichewa", "Chinese (Simplified)", "Chinese (Traditional)",
-  "Corsican", "Croatian", "Czech", "Danish", "Dutch", "English", "Esperanto",
-  "Estonian", "Filipino", "Finnish", "French", "Frisian", "Galician",
-  "Georgian", "German", "Greek", "Gujarati", "Haitian Creole", "Hausa",
-  "Hawaiian", "Hebrew", "Hindi", "Hmong", "Hungarian", "Icelandic", "Igbo",
-  "Indonesian", "Irish", "Italian", "Japanese", "Javanese", "Kannada",
-  "Kazakh", "Khmer", "Kinyarwanda", "Korean", "Kurdish (Kurmanji)", "Kyrgyz",
-  "Lao", "Latin", "Latvian", "Lithuanian", "Luxembourgish", "Macedonian",
-  "Malagasy", "Malay", "Malayalam", "Maltese", "Maori", "Marathi", "Mongolian",
-  "Myanmar (Burmese)", "Nepali", "Norwegian", "Odia (Oriya)", "Pashto",
-  "Persian", "Polish", "Portuguese", "Punjabi", "Romanian", "Russian",
-  "Samoan", "Scots Gaelic", "Serbian", "Sesotho", "Shona", "Sindhi", "Sinhala",
-  "Slovak", "Slovenian", "Somali", "Spanish", "Sundanese", "Swahili", "Swedish",
-  "Tajik", "Tamil", "Tatar", "Telugu", "Thai", "Turkish", "Turkmen",
-  "Ukrainian", "Urdu", "Uyghur", "Uzbek", "Vietnamese", "Welsh", "Xhosa",
-  "Yiddish", "Yoruba", "Zulu"
-].sort();
+import { importSubtitles } from './utils/importers';
+import { createProjectBundle, serializeProjectBundle, parseProjectBundle, PROJECT_FILE_EXTENSION } from './utils/projectBundle';
+import { renameSpeaker } from './utils/speakers';
+import { diffTranscripts } from './utils/diff';
+import { scoreTranscript, DEFAULT_NORMALIZATION, NormalizationOptions, TranscriptScore } from './utils/scoring';
+import { checkGlossary, glossaryRules, EMPTY_GLOSSARY, GlossaryIssue } from './utils/glossary';
+import { listTranslationLanguages, showLanguage, shownTranslations, withTranslation } from './utils/translations';
+import { LANGUAGES } from './utils/languages';
+import { clampToAudio } from './utils/timing';
+import { SEGMENTATION_PRESETS } from './utils/segmentation';
+import { listProviders, getActiveProvider, setActiveProvider } from './services/providers';
+import { RetryInfo } from './services/retry';
+import {
+  StorageUsage, createSessionId, listSessions, loadSession, saveSession, renameSession,
+  duplicateSession, deleteSession, getStorageUsage, cleanupSessions, requestPersistentStorage,
+} from './services/sessionStore';
 
 /**
  * Robustly parses various timestamp formats into total seconds.
@@ -56,36 +64,94 @@ const getCorrectMimeType = (filename: string, originalType: string): string => {
   return 'audio/mp3';
 };
 
-type ModelSelection = 'both' | 'left' | 'right';
+// Remembers which session to reopen after a reload
+const LAST_SESSION_KEY = 'lastSessionId';
+const AUTOSAVE_DELAY_MS = 1000;
+
+let paneCounter = 0;
+
+// Ids carry a timestamp so panes restored from history never collide with newly added ones
+const createPane = (modelName: string): PaneConfig => ({
+  id: `pane-${Date.now().toString(36)}-${++paneCounter}`,
+  modelName,
+  granularity: 'line',
+  settings: { temperature: 0 },
+});
+
+const formatRetryNotice = ({ attempt, maxAttempts, delayMs, error }: RetryInfo): string =>
+  `${error.message} Retrying in ${Math.max(1, Math.round(delayMs / 1000))}s (attempt ${attempt + 1} of ${maxAttempts})…`;
+
+const emptyResult = (modelName: string): TranscriptionResult => ({ modelName, segments: [], loading: false });
+
+const DEFAULT_PANES = [createPane('gemini-2.5-flash'), createPane('gemini-3-flash-preview')];
+
+const initialResults = (panes: PaneConfig[]): Record<string, TranscriptionResult> =>
+  Object.fromEntries(panes.map(p => [p.id, emptyResult(p.modelName)]));
 
 const App: React.FC = () => {
   const [audioFile, setAudioFile] = useState<AudioFileData | null>(null);
   const [urlInput, setUrlInput] = useState("");
   const [isFetchingUrl, setIsFetchingUrl] = useState(false);
   const [targetLang, setTargetLang] = useState("Indonesian");
+  const [sourceLang, setSourceLang] = useState(""); // Language spoken in the audio; empty when unspecified
+  const [glossary, setGlossary] = useState<Glossary>(EMPTY_GLOSSARY);
+  const [showGlossary, setShowGlossary] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [waveformLoading, setWaveformLoading] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(true);
+  const [speech, setSpeech] = useState<SpeechRegion[] | null>(null);
+  const [speechAnalyzing, setSpeechAnalyzing] = useState(false);
+  const [editHistory, setEditHistory] = useState<Record<string, EditHistory>>({}); // Keyed by pane id
+  const [playback, setPlayback] = useState<PlaybackSettings>(loadPlaybackSettings);
+  const [segmentLoop, setSegmentLoop] = useState<{ start: number; end: number } | null>(null);
+  const [abLoop, setAbLoop] = useState<AbLoop | null>(null);
+  const [playbackPaneId, setPlaybackPaneId] = useState<string | null>(null); // Pane whose segments next/previous and looping follow
+  const [showSearch, setShowSearch] = useState(false);
+  const [search, setSearch] = useState<SearchOptions>(DEFAULT_SEARCH);
+  const [searchScope, setSearchScope] = useState('all'); // 'all' or a pane id
+  const [searchCursor, setSearchCursor] = useState(-1); // Index into orderedMatches of the match stepped to
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [granularity, setGranularity] = useState<'line' | 'word'>('line');
-  const [modelSelection, setModelSelection] = useState<ModelSelection>('both');
+  const [chunking, setChunking] = useState(true);
+  const [assPreset, setAssPreset] = useState('default');
+  const [vttPreset, setVttPreset] = useState('default');
+  const [segmentationPreset, setSegmentationPreset] = useState(''); // Empty exports cues as transcribed
+  const [lintTarget, setLintTarget] = useState('netflix');
+  const [lintOverrides, setLintOverrides] = useState<Record<string, Partial<Record<LintRuleId, LintLevel>>>>({}); // Per target
+  const [compareMode, setCompareMode] = useState(false);
+  const [comparePair, setComparePair] = useState<[string, string]>([DEFAULT_PANES[0].id, DEFAULT_PANES[1].id]);
+  const [normalization, setNormalization] = useState<NormalizationOptions>(DEFAULT_NORMALIZATION);
+  const [providerId, setProviderId] = useState(() => getActiveProvider().id);
   
   // Recording State
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
 
-  const [results, setResults] = useState<{
-    left: TranscriptionResult;
-    right: TranscriptionResult;
-  }>({
-    left: { modelName: 'gemini-2.5-flash', segments: [], loading: false },
-    right: { modelName: 'gemini-3-flash-preview', segments: [], loading: false },
-  });
+  // Pane order and settings; results are keyed by pane id so async updates survive reordering
+  const [panes, setPanes] = useState<PaneConfig[]>(DEFAULT_PANES);
+  const [results, setResults] = useState<Record<string, TranscriptionResult>>(() => initialResults(DEFAULT_PANES));
+
+  const [lastInteractedPane, setLastInteractedPane] = useState<string | null>(null);
 
-  const [lastInteractedSide, setLastInteractedSide] = useState<'left' | 'right' | null>(null);
+  // Session history
+  const [sessionId, setSessionId] = useState(createSessionId);
+  const [sessionName, setSessionName] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importTargetRef = useRef<string>(DEFAULT_PANES[0].id);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const appContainerRef = useRef<HTMLDivElement>(null);
   const interactionTimeout = useRef<number | null>(null);
+  const speechRunRef = useRef(0); // Bumped per audio file so a late analysis of the old one is ignored
+  const pausedAtRef = useRef<number | null>(null); // Where playback was paused, to tell a resume from a seek
+  const playbackActionRef = useRef<(action: PlaybackAction) => void>(() => {});
   
   // Recording Refs
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -93,7 +159,93 @@ const App: React.FC = () => {
   const recordingIntervalRef = useRef<number | null>(null);
 
   // Abort Controllers for Cancellation
-  const abortControllersRef = useRef<{ [key in 'left' | 'right']: AbortController | null }>({ left: null, right: null });
+  const abortControllersRef = useRef<Record<string, AbortController | null>>({});
+
+  // Chunked transcription: the split audio is shared by all panes, results are kept per chunk so
+  // a single failed chunk can be retried and re-stitched without re-running the others.
+  const preparedChunksRef = useRef<{ key: string; chunks: Promise<AudioChunk[]> } | null>(null);
+  const chunkSegmentsRef = useRef<Record<string, (TranscriptionSegment[] | undefined)[]>>({});
+  // The chunk layout each pane's last run used; retries must cut the same windows, whatever the toggle says now
+  const paneChunksRef = useRef<Record<string, AudioChunk[]>>({});
+
+  // previewUrl of the audio already written under the current session id, so autosave skips the blob
+  const savedAudioRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const lastId = localStorage.getItem(LAST_SESSION_KEY);
+    if (!lastId) return;
+    loadSession(lastId)
+      .then(stored => { if (stored) return applySession(stored.summary.id, stored.summary.name, stored.snapshot, stored.audio); })
+      .catch(err => console.error("Could not restore the last session:", err));
+  }, []);
+
+  useEffect(() => {
+    if (showHistory) refreshHistory();
+  }, [showHistory]);
+
+  // Keyed on the audio bytes: attaching a reference transcript replaces the object, not the audio
+  const audioBase64 = audioFile?.base64;
+  useEffect(() => {
+    setWaveform(null);
+    setSpeech(null);
+    setSpeechAnalyzing(false);
+    speechRunRef.current++;
+    setSegmentLoop(null);
+    setAbLoop(null);
+    if (!audioBase64) return;
+    let cancelled = false;
+    setWaveformLoading(true);
+    loadWaveform(audioBase64)
+      .then(data => { if (!cancelled) setWaveform(data); })
+      .catch(err => console.warn("Could not decode audio for the waveform:", err))
+      .finally(() => { if (!cancelled) setWaveformLoading(false); });
+    return () => { cancelled = true; };
+  }, [audioBase64]);
+
+  useEffect(() => {
+    savePlaybackSettings(playback);
+  }, [playback]);
+
+  // A new file resets the element's rate, so it is applied again whenever the audio changes
+  useEffect(() => {
+    const audio = audioRef.current as (HTMLAudioElement & { webkitPreservesPitch?: boolean }) | null;
+    if (!audio) return;
+    audio.defaultPlaybackRate = playback.rate;
+    audio.playbackRate = playback.rate;
+    audio.preservesPitch = playback.preservePitch;
+    audio.webkitPreservesPitch = playback.preservePitch;
+  }, [playback.rate, playback.preservePitch, audioFile]);
+
+  // timeupdate fires only a few times a second, so loops are checked every frame instead
+  const loopRange = segmentLoop ?? (abLoop && abLoop.b !== null ? { start: abLoop.a, end: abLoop.b } : null);
+  useEffect(() => {
+    if (!loopRange) return;
+    let frame = 0;
+    const check = () => {
+      const audio = audioRef.current;
+      if (audio && !audio.paused && audio.currentTime >= loopRange.end) audio.currentTime = loopRange.start;
+      frame = requestAnimationFrame(check);
+    };
+    frame = requestAnimationFrame(check);
+    return () => cancelAnimationFrame(frame);
+  }, [loopRange?.start, loopRange?.end]);
+
+  // Global shortcuts. Plain keys are left alone while typing; combos with Ctrl, Alt or Meta work anywhere.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const combo = hotkeyFromEvent(e);
+      if (!combo) return;
+      const target = e.target as HTMLElement | null;
+      const typing = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+      if (typing && !hasModifier(combo)) return;
+      const action = (Object.keys(playback.hotkeys) as PlaybackAction[]).find(a => playback.hotkeys[a] === combo);
+      if (!action) return;
+      e.preventDefault();
+      playbackActionRef.current(action);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [playback.hotkeys]);
 
   useEffect(() => {
     const handleFullscreenChange = () => {
@@ -213,8 +365,13 @@ const App: React.FC = () => {
   };
 
   const handleNewSession = () => {
-    stopTranscription('left');
-    stopTranscription('right');
+    // Flush pending edits; the finished session stays in history
+    if (audioFile || hasResults) persistSession();
+    resetWorkspace();
+  };
+
+  const resetWorkspace = () => {
+    panes.forEach(p => stopTranscription(p.id));
     if (isRecording) stopRecording();
 
     if (audioRef.current) {
@@ -228,18 +385,183 @@ const App: React.FC = () => {
     setAudioFile(null);
     setUrlInput("");
     setCurrentTime(0);
-    setResults({
-      left: { modelName: 'gemini-2.5-flash', segments: [], loading: false },
-      right: { modelName: 'gemini-3-flash-preview', segments: [], loading: false },
-    });
-    setLastInteractedSide(null);
+    // Pane layout and settings are kept; only their transcripts are cleared
+    setResults(initialResults(panes));
+    setEditHistory({});
+    setGlossary(EMPTY_GLOSSARY);
+    setSourceLang("");
+    setLastInteractedPane(null);
+    setSessionId(createSessionId());
+    setSessionName("");
+    savedAudioRef.current = null;
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const handleSegmentClick = (startTime: string, side: 'left' | 'right') => {
-    setLastInteractedSide(side);
+  const buildSnapshot = (): SessionSnapshot => {
+    let audio: SessionSnapshot['audio'] = null;
+    if (audioFile) {
+      const { base64, previewUrl, ...meta } = audioFile;
+      audio = meta;
+    }
+    return { audio, panes, results, targetLang, sourceLang: sourceLang || undefined, glossary };
+  };
+
+  const refreshHistory = async () => {
+    try {
+      setSessions(await listSessions());
+      setStorageUsage(await getStorageUsage());
+    } catch (err: any) {
+      setHistoryNotice(`History unavailable: ${err.message}`);
+    }
+  };
+
+  /**
+   * Writes the current session to IndexedDB. The audio blob is only written when the file
+   * changed since the last save; afterwards the quota-aware cleanup may evict old sessions.
+   */
+  const persistSession = async () => {
+    const id = sessionId;
+    const audioKey = audioFile?.previewUrl ?? null;
+    try {
+      let audio: Blob | null | undefined;
+      if (savedAudioRef.current !== audioKey) {
+        audio = audioFile ? await (await fetch(audioFile.previewUrl)).blob() : null;
+        if (audio) requestPersistentStorage().catch(() => undefined);
+      }
+      await saveSession(id, sessionName || audioFile?.fileName || 'Untitled session', buildSnapshot(), audio);
+      savedAudioRef.current = audioKey;
+      localStorage.setItem(LAST_SESSION_KEY, id);
+
+      const removed = await cleanupSessions([id]);
+      if (removed.length > 0) {
+        setHistoryNotice(`Storage nearly full: removed ${removed.length} oldest session${removed.length === 1 ? '' : 's'} (${removed.map(s => s.name).join(', ')}).`);
+      }
+      if (showHistory || removed.length > 0) refreshHistory();
+    } catch (err: any) {
+      console.error("Could not save session:", err);
+      setHistoryNotice(`Could not save this session: ${err.message}`);
+    }
+  };
+
+  /**
+   * Replaces the workspace with a stored or imported session. `audioStored` is false for
+   * imports, so the next autosave writes the audio blob into history.
+   */
+  const applySession = async (id: string, name: string, snapshot: SessionSnapshot, audio: Blob | null, audioStored = true) => {
+    panes.forEach(p => stopTranscription(p.id));
+    if (audioRef.current) audioRef.current.pause();
+    if (audioFile?.previewUrl) URL.revokeObjectURL(audioFile.previewUrl);
+
+    let restoredAudio: AudioFileData | null = null;
+    if (audio && snapshot.audio) {
+      restoredAudio = { ...snapshot.audio, base64: await readBlobAsBase64(audio), previewUrl: URL.createObjectURL(audio) };
+    }
+    const restoredPanes = snapshot.panes.length > 0 ? snapshot.panes : [createPane('gemini-2.5-flash')];
+
+    chunkSegmentsRef.current = {};
+    paneChunksRef.current = {};
+    savedAudioRef.current = audioStored ? (restoredAudio?.previewUrl ?? null) : null;
+    setAudioFile(restoredAudio);
+    setPanes(restoredPanes);
+    setResults({ ...initialResults(restoredPanes), ...snapshot.results });
+    setEditHistory({});
+    setTargetLang(snapshot.targetLang || targetLang);
+    setSourceLang(snapshot.sourceLang ?? "");
+    setGlossary(snapshot.glossary ?? EMPTY_GLOSSARY);
+    setSessionId(id);
+    setSessionName(name);
+    setUrlInput("");
+    setCurrentTime(0);
+    setLastInteractedPane(null);
+    if (audioStored) localStorage.setItem(LAST_SESSION_KEY, id);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    if (audioFile || hasResults) await persistSession();
+    try {
+      const stored = await loadSession(id);
+      if (stored) await applySession(stored.summary.id, stored.summary.name, stored.snapshot, stored.audio);
+      else setHistoryNotice("That session no longer exists.");
+    } catch (err: any) {
+      setHistoryNotice(`Could not open session: ${err.message}`);
+    }
+    refreshHistory();
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    if (id === sessionId) setSessionName(name);
+    await renameSession(id, name).catch(err => setHistoryNotice(`Rename failed: ${err.message}`));
+    refreshHistory();
+  };
+
+  const handleDuplicateSession = async (id: string) => {
+    if (id === sessionId) await persistSession();
+    await duplicateSession(id).catch(err => setHistoryNotice(`Duplicate failed: ${err.message}`));
+    refreshHistory();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!window.confirm(`Delete "${session?.name ?? 'this session'}" from history? This cannot be undone.`)) return;
+    await deleteSession(id).catch(err => setHistoryNotice(`Delete failed: ${err.message}`));
+    if (id === sessionId) {
+      localStorage.removeItem(LAST_SESSION_KEY);
+      // Clear the workspace so autosave does not bring the deleted session straight back
+      resetWorkspace();
+    }
+    refreshHistory();
+  };
+
+  const handleExportProject = () => {
+    if (!audioFile && !hasResults) return;
+    const name = sessionName || audioFile?.fileName || 'Untitled session';
+    const bundle = createProjectBundle(name, buildSnapshot(), audioFile?.base64 ?? null);
+    const baseFileName = name.replace(/\.[^.]+$/, '').replace(/[\\/:*?"<>|]+/g, '_') || 'project';
+    Exporters.downloadFile(serializeProjectBundle(bundle), `${baseFileName}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleImportProject = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const project = parseProjectBundle(e.target?.result as string);
+        if (audioFile || hasResults) await persistSession();
+        const audio = project.audio
+          ? new Blob([decodeBase64(project.audio.data)], { type: project.audio.mimeType })
+          : null;
+        // Imports open as a new history entry so the current session is never overwritten
+        await applySession(createSessionId(), project.name, project.snapshot, audio, false);
+        if (project.migratedFrom !== undefined) {
+          console.info(`Upgraded project "${project.name}" from format v${project.migratedFrom}`);
+        }
+      } catch (err: any) {
+        alert(`Could not open project: ${err.message}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleCleanup = async () => {
+    try {
+      const removed = await cleanupSessions([sessionId]);
+      setHistoryNotice(removed.length > 0
+        ? `Removed ${removed.length} oldest session${removed.length === 1 ? '' : 's'}.`
+        : 'Storage is below the cleanup threshold; nothing was removed.');
+    } catch (err: any) {
+      setHistoryNotice(`Cleanup failed: ${err.message}`);
+    }
+    refreshHistory();
+  };
+
+  const handleSegmentClick = (startTime: string, paneId: string) => {
+    setLastInteractedPane(paneId);
+    setPlaybackPaneId(paneId);
     if (interactionTimeout.current) window.clearTimeout(interactionTimeout.current);
-    interactionTimeout.current = window.setTimeout(() => setLastInteractedSide(null), 3000);
+    interactionTimeout.current = window.setTimeout(() => setLastInteractedPane(null), 3000);
 
     if (audioRef.current) {
       const seconds = parseTimestamp(startTime);
@@ -248,10 +570,159 @@ const App: React.FC = () => {
     }
   };
 
+  const handleProviderChange = (id: string) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  const handleSeek = (seconds: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = seconds;
+      audioRef.current.play().catch(console.error);
+    }
+  };
+
   const handleTimeUpdate = () => {
     if (audioRef.current) setCurrentTime(audioRef.current.currentTime);
   };
 
+  const handlePause = () => {
+    if (audioRef.current && !audioRef.current.ended) pausedAtRef.current = audioRef.current.currentTime;
+  };
+
+  // Rewinds only when playback picks up where it stopped, not after a seek to a segment
+  const handlePlay = () => {
+    const audio = audioRef.current;
+    const pausedAt = pausedAtRef.current;
+    pausedAtRef.current = null;
+    if (!audio || pausedAt === null || playback.rewindOnResume <= 0) return;
+    if (Math.abs(audio.currentTime - pausedAt) < 0.05) audio.currentTime = Math.max(0, pausedAt - playback.rewindOnResume);
+  };
+
+  const { pattern: searchPattern, error: searchError } = useMemo(() => buildPattern(search), [search]);
+
+  const searchMatches = useMemo(() => {
+    const byPane: Record<string, TextMatch[]> = {};
+    if (!showSearch || !searchPattern) return byPane;
+    panes.forEach(p => {
+      if (searchScope === 'all' || searchScope === p.id) byPane[p.id] = findMatches(results[p.id]?.segments ?? [], searchPattern, search.translations);
+    });
+    return byPane;
+  }, [showSearch, searchPattern, search.translations, searchScope, panes, results]);
+
+  // Stepping goes through the recording in time order; matches at the same time keep pane order
+  const orderedMatches = useMemo(() => panes
+    .flatMap(p => (searchMatches[p.id] ?? []).map(match => ({ paneId: p.id, match, time: parseTimestamp(results[p.id].segments[match.index].startTime) })))
+    .sort((a, b) => a.time - b.time),
+  [searchMatches, panes, results]);
+  const currentMatch = orderedMatches[searchCursor] ?? null;
+
+  useEffect(() => {
+    setSearchCursor(-1);
+  }, [search, searchScope]);
+
+  const handleSearchStep = (direction: 1 | -1) => {
+    const count = orderedMatches.length;
+    if (count === 0) return;
+    const next = searchCursor < 0 || searchCursor >= count
+      ? (direction > 0 ? 0 : count - 1)
+      : (searchCursor + direction + count) % count;
+    const { paneId, time } = orderedMatches[next];
+    setSearchCursor(next);
+    setPlaybackPaneId(paneId);
+    setLastInteractedPane(null); // Lets the pane scroll to the match
+    if (audioRef.current) audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  // One undo step per pane, whatever the number of matches
+  const handleReplace = (changes: Record<string, ReplaceChange[]>) => {
+    Object.entries(changes).forEach(([paneId, list]) => {
+      const segments = results[paneId]?.segments;
+      if (!segments || list.length === 0) return;
+      commitEdit(paneId, applyReplace(segments, list), { notice: `Replaced text in ${list.length} place${list.length === 1 ? '' : 's'}.` });
+    });
+    setSearchCursor(-1);
+  };
+
+  const handleCloseSearch = () => {
+    setShowSearch(false);
+    setSearchCursor(-1);
+  };
+
+  const handlePlaybackChange = (patch: Partial<PlaybackSettings>) => {
+    setPlayback(prev => ({ ...prev, ...patch }));
+  };
+
+  /** The last pane clicked, or else the first with segments. */
+  const playbackPane = (): PaneConfig | undefined =>
+    panes.find(p => p.id === playbackPaneId && results[p.id]?.segments.length > 0)
+      ?? panes.find(p => results[p.id]?.segments.length > 0);
+
+  const handleToggleSegmentLoop = () => {
+    if (segmentLoop) return setSegmentLoop(null);
+    const pane = playbackPane();
+    const segment = pane && results[pane.id].segments[activeIndices[pane.id] ?? -1];
+    if (!segment) return;
+    setSegmentLoop({ start: parseTimestamp(segment.startTime), end: parseTimestamp(segment.endTime) });
+    setAbLoop(null);
+  };
+
+  const handleAbLoop = () => {
+    const t = audioRef.current?.currentTime ?? currentTime;
+    if (!abLoop) {
+      setAbLoop({ a: t, b: null });
+      setSegmentLoop(null);
+    } else if (abLoop.b === null) {
+      if (Math.abs(t - abLoop.a) < 0.1) return;
+      setAbLoop({ a: Math.min(abLoop.a, t), b: Math.max(abLoop.a, t) });
+    } else {
+      setAbLoop(null);
+    }
+  };
+
+  // Previous goes to the start of the current segment first, like a music player, once it has played a second
+  const jumpSegment = (direction: 1 | -1) => {
+    const audio = audioRef.current;
+    const pane = playbackPane();
+    if (!audio || !pane) return;
+    const segments = results[pane.id].segments;
+    const active = activeIndices[pane.id] ?? -1;
+    let target = active + direction;
+    if (direction < 0 && active >= 0 && audio.currentTime - parseTimestamp(segments[active].startTime) > 1) target = active;
+    if (target < 0 || target >= segments.length) return;
+    audio.currentTime = parseTimestamp(segments[target].startTime);
+  };
+
+  const stepRate = (direction: 1 | -1) => {
+    const index = PLAYBACK_RATES.findIndex(rate => rate >= playback.rate);
+    const next = PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, (index < 0 ? PLAYBACK_RATES.length - 1 : index) + direction))];
+    handlePlaybackChange({ rate: next });
+  };
+
+  playbackActionRef.current = (action: PlaybackAction) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    switch (action) {
+      case 'toggle':
+        if (audio.paused) audio.play().catch(console.error);
+        else audio.pause();
+        break;
+      case 'back':
+        audio.currentTime = Math.max(0, audio.currentTime - playback.skipSeconds);
+        break;
+      case 'forward':
+        audio.currentTime = Math.min(audio.duration || Infinity, audio.currentTime + playback.skipSeconds);
+        break;
+      case 'prevSegment': return jumpSegment(-1);
+      case 'nextSegment': return jumpSegment(1);
+      case 'slower': return stepRate(-1);
+      case 'faster': return stepRate(1);
+      case 'loopSegment': return handleToggleSegmentLoop();
+      case 'abLoop': return handleAbLoop();
+    }
+  };
+
   const activeIndices = useMemo(() => {
     const EPSILON = 0.05;
     const findActive = (segments: TranscriptionSegment[]) => {
@@ -271,13 +742,151 @@ const App: React.FC = () => {
       }
       return candidateIdx;
     };
-    return {
-      left: findActive(results.left.segments),
-      right: findActive(results.right.segments)
-    };
-  }, [currentTime, results.left.segments, results.right.segments]);
+    const indices: Record<string, number> = {};
+    for (const pane of panes) indices[pane.id] = findActive(results[pane.id]?.segments ?? []);
+    return indices;
+  }, [currentTime, panes, results]);
+
+  const getAudioChunks = (): Promise<AudioChunk[]> => {
+    if (!audioFile) return Promise.resolve([]);
+    const key = `${audioFile.previewUrl}|${chunking}`;
+    if (preparedChunksRef.current?.key !== key) {
+      const chunks = chunking
+        ? prepareAudioChunks(audioFile.base64, audioFile.mimeType)
+        : Promise.resolve([wholeFileChunk(audioFile.base64, audioFile.mimeType)]);
+      preparedChunksRef.current = { key, chunks };
+    }
+    return preparedChunksRef.current.chunks;
+  };
+
+  /**
+   * Patches one pane's result. Updates for panes removed while a request was in flight are dropped.
+   */
+  const updateResult = (
+    paneId: string,
+    patch: Partial<TranscriptionResult> | ((result: TranscriptionResult) => Partial<TranscriptionResult>)
+  ) => {
+    setResults(prev => {
+      const current = prev[paneId];
+      if (!current) return prev;
+      return { ...prev, [paneId]: { ...current, ...(typeof patch === 'function' ? patch(current) : patch) } };
+    });
+  };
+
+  // Same rule as the pane's controls, for edits that arrive from outside it
+  const isEditable = (paneId: string) => {
+    const result = results[paneId];
+    return !!result && !result.loading && !result.translating;
+  };
+
+  // Manual edits go through here so each one can be undone
+  const commitEdit = (paneId: string, segments: TranscriptionSegment[], patch: Partial<TranscriptionResult> = {}) => {
+    const before = results[paneId]?.segments;
+    if (!before || !isEditable(paneId)) return;
+    setEditHistory(prev => ({ ...prev, [paneId]: recordEdit(prev[paneId] ?? EMPTY_HISTORY, before) }));
+    updateResult(paneId, { ...patch, segments });
+  };
+
+  const clearEditHistory = (paneId: string) => {
+    setEditHistory(prev => {
+      const { [paneId]: _cleared, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const updateChunk = (paneId: string, index: number, patch: Partial<ChunkProgressData>) => {
+    updateResult(paneId, prev => ({
+      chunks: prev.chunks?.map(c => c.index === index ? { ...c, ...patch } : c),
+    }));
+  };
+
+  /**
+   * Transcribes one chunk and records its segments. Returns the error message on failure
+   * so the caller can carry on with the remaining chunks. `merge` turns the stored chunk
+   * results into the pane's segments; by default the whole timeline is rebuilt from them.
+   */
+  const runChunk = async (
+    pane: PaneConfig,
+    chunks: AudioChunk[],
+    chunk: AudioChunk,
+    signal: AbortSignal,
+    merge: (stored: (TranscriptionSegment[] | undefined)[]) => TranscriptionSegment[] = stored => mergeChunkSegments(chunks, stored),
+  ): Promise<string | null> => {
+    updateChunk(pane.id, chunk.index, { status: 'working', error: undefined });
+    try {
+      const segments = await transcribeChunk(pane.modelName, chunk, signal, pane.granularity, {
+        settings: pane.settings,
+        onRetry: (info) => updateResult(pane.id, { notice: formatRetryNotice(info) }),
+        // Streamed segments are stored like a finished chunk so they render live and survive a stop
+        onPartial: (partial) => {
+          const stored = chunkSegmentsRef.current[pane.id];
+          if (!stored) return;
+          stored[chunk.index] = partial;
+          updateResult(pane.id, { segments: merge(stored) });
+        },
+      });
+      const stored = chunkSegmentsRef.current[pane.id];
+      if (stored) stored[chunk.index] = segments;
+      updateChunk(pane.id, chunk.index, { status: 'done' });
+      updateResult(pane.id, { notice: undefined });
+      return null;
+    } catch (err: any) {
+      if (err.name === 'AbortError') throw err;
+      // A failed chunk contributes nothing, not even what streamed before the failure
+      const stored = chunkSegmentsRef.current[pane.id];
+      if (stored) stored[chunk.index] = undefined;
+      updateChunk(pane.id, chunk.index, { status: 'error', error: err.message });
+      updateResult(pane.id, { notice: undefined, segments: merge(stored || []) });
+      return err.message || 'Transcription failed';
+    }
+  };
+
+  const runTranscription = async (pane: PaneConfig) => {
+    if (abortControllersRef.current[pane.id]) abortControllersRef.current[pane.id]?.abort();
+    const controller = new AbortController();
+    abortControllersRef.current[pane.id] = controller;
+    chunkSegmentsRef.current[pane.id] = [];
+    clearEditHistory(pane.id);
+    updateResult(pane.id, {
+      modelName: pane.modelName, loading: true, segments: [], error: undefined, notice: undefined, chunks: undefined, importedFrom: undefined, granularity: pane.granularity,
+    });
+
+    let chunks: AudioChunk[] = [];
+    try {
+      chunks = await getAudioChunks();
+      paneChunksRef.current[pane.id] = chunks;
+      updateResult(pane.id, {
+        chunks: chunks.map(c => ({ index: c.index, startSec: c.start, endSec: c.end, status: 'pending' as const })),
+      });
+
+      let lastError: string | null = null;
+      let failed = 0;
+      for (const chunk of chunks) {
+        if (controller.signal.aborted) throw new DOMException("Aborted", "AbortError");
+        const chunkError = await runChunk(pane, chunks, chunk, controller.signal);
+        if (chunkError) {
+          lastError = chunkError;
+          failed++;
+        }
+      }
+
+      const segments = mergeChunkSegments(chunks, chunkSegmentsRef.current[pane.id]);
+      const error = failed === chunks.length ? (lastError || undefined) : undefined;
+      updateResult(pane.id, { segments, error, loading: false });
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        // Keep whatever chunks finished before the stop
+        const segments = mergeChunkSegments(chunks, chunkSegmentsRef.current[pane.id] || []);
+        updateResult(pane.id, { segments, loading: false, error: 'Canceled' });
+      } else {
+        updateResult(pane.id, { error: err.message, loading: false });
+      }
+    } finally {
+      if (abortControllersRef.current[pane.id] === controller) abortControllersRef.current[pane.id] = null;
+    }
+  };
 
-  const startTranscription = async () => {
+  const startTranscription = async (targets: PaneConfig[] = panes) => {
     if (!audioFile) return;
 
     // Stop audio playback when transcription starts
@@ -285,102 +894,387 @@ const App: React.FC = () => {
       audioRef.current.pause();
     }
 
-    // Reset only the selected sides
+    await Promise.all(targets.map(runTranscription));
+  };
+
+  /**
+   * The chunk layout of a pane's last run. Sessions store only the chunk windows, so after a
+   * restore the audio is cut again; the cut is deterministic, and it is used only if its
+   * windows match the stored ones.
+   */
+  const paneChunkLayout = async (paneId: string): Promise<AudioChunk[] | null> => {
+    const known = paneChunksRef.current[paneId];
+    if (known) return known;
+    const stored = results[paneId]?.chunks;
+    if (!audioFile || !stored || stored.length < 2) return null;
+    const chunks = chunking ? await getAudioChunks() : await prepareAudioChunks(audioFile.base64, audioFile.mimeType);
+    const same = chunks.length === stored.length
+      && chunks.every((c, i) => Math.abs(c.start - stored[i].startSec) < 0.01 && Math.abs(c.end - stored[i].endSec) < 0.01);
+    if (!same) return null;
+    paneChunksRef.current[paneId] = chunks;
+    return chunks;
+  };
+
+  const retryChunk = async (pane: PaneConfig, index: number) => {
+    // A running chunk loop or translation owns the pane's controller; aborting it would end that run
+    if (!isEditable(pane.id)) return;
+    const chunks = await paneChunkLayout(pane.id);
+    const chunk = chunks?.[index];
+    if (!chunks || !chunk) {
+      updateResult(pane.id, { notice: 'The audio no longer splits into the chunks of that run; run the pane again instead.' });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllersRef.current[pane.id] = controller;
+    // Only the chunk's own stretch is replaced, so edits and translations elsewhere survive
+    const before = results[pane.id].segments;
+    const stored = (chunkSegmentsRef.current[pane.id] ??= []);
+    stored[chunk.index] = undefined;
+    const merge = (chunkResults: (TranscriptionSegment[] | undefined)[]) => {
+      const retried = chunkResults[chunk.index];
+      return retried ? spliceChunkSegments(before, chunk, retried) : before;
+    };
+    updateResult(pane.id, { loading: true });
+    try {
+      const chunkError = await runChunk(pane, chunks, chunk, controller.signal, merge);
+      if (!chunkError) updateResult(pane.id, { segments: merge(stored), error: undefined });
+    } catch (err: any) {
+      if (err.name === 'AbortError') updateChunk(pane.id, index, { status: 'error', error: 'Canceled' });
+    } finally {
+      if (abortControllersRef.current[pane.id] === controller) abortControllersRef.current[pane.id] = null;
+      // One undo step takes the pane back to how it was before the retry
+      if (stored[chunk.index]) setEditHistory(prev => ({ ...prev, [pane.id]: recordEdit(prev[pane.id] ?? EMPTY_HISTORY, before) }));
+      updateResult(pane.id, { loading: false });
+    }
+  };
+
+  const stopTranscription = (paneId: string) => {
+    const controller = abortControllersRef.current[paneId];
+    if (controller) {
+      controller.abort();
+      abortControllersRef.current[paneId] = null;
+    }
+  };
+
+  const handleAddPane = () => {
+    const last = panes[panes.length - 1];
+    // New panes start as a copy of the last one so prompt variants of one model are a click away
+    const pane = last ? { ...last, settings: { ...last.settings }, id: createPane(last.modelName).id } : createPane('gemini-2.5-flash');
+    setPanes(prev => [...prev, pane]);
+    setResults(prev => ({ ...prev, [pane.id]: emptyResult(pane.modelName) }));
+  };
+
+  const handleRemovePane = (paneId: string) => {
+    if (panes.length <= 1) return;
+    stopTranscription(paneId);
+    delete abortControllersRef.current[paneId];
+    delete chunkSegmentsRef.current[paneId];
+    delete paneChunksRef.current[paneId];
+    setPanes(prev => prev.filter(p => p.id !== paneId));
     setResults(prev => {
-      const next = { ...prev };
-      if (modelSelection === 'both' || modelSelection === 'left') {
-        next.left = { ...prev.left, loading: true, segments: [], error: undefined };
-      }
-      if (modelSelection === 'both' || modelSelection === 'right') {
-        next.right = { ...prev.right, loading: true, segments: [], error: undefined };
-      }
-      return next;
+      const { [paneId]: _removed, ...rest } = prev;
+      return rest;
     });
+    clearEditHistory(paneId);
+    if (lastInteractedPane === paneId) setLastInteractedPane(null);
+    if (searchScope === paneId) setSearchScope('all');
+  };
+
+  const handlePaneConfigChange = (paneId: string, patch: Partial<PaneConfig>) => {
+    setPanes(prev => prev.map(p => p.id === paneId ? { ...p, ...patch } : p));
+  };
 
-    const runTranscription = async (side: 'left' | 'right') => {
-      if (abortControllersRef.current[side]) abortControllersRef.current[side]?.abort();
+  const handleTranslate = async () => {
+    // Streaming panes are skipped: their segments are still being replaced
+    const targets = panes.filter(p => results[p.id]?.segments.length > 0 && !results[p.id].loading);
+    targets.forEach(p => updateResult(p.id, { translating: true, translationProgress: undefined, notice: undefined }));
+    const runTranslate = async (paneId: string) => {
+      // Shares the pane's controller, so Stop or a new run ends the translation too
+      abortControllersRef.current[paneId]?.abort();
       const controller = new AbortController();
-      abortControllersRef.current[side] = controller;
+      abortControllersRef.current[paneId] = controller;
       try {
-        const segments = await transcribeAudio(
-          results[side].modelName, 
-          audioFile.base64, 
-          audioFile.mimeType,
-          controller.signal,
-          granularity
-        );
-        setResults(prev => ({ ...prev, [side]: { ...prev[side], segments, loading: false } }));
+        const { segments, missing } = await translateSegments(results[paneId].segments, targetLang, controller.signal, {
+          onRetry: (info) => updateResult(paneId, { notice: formatRetryNotice(info) }),
+          onProgress: (progress) => updateResult(paneId, { translationProgress: progress }),
+          glossary: glossaryRules(glossary, targetLang),
+        });
+        // Only this language is written back, by position, onto the segments as they are now
+        updateResult(paneId, prev => ({
+          segments: prev.segments.map((s, i) => i < segments.length ? withTranslation(s, targetLang, segments[i].translations?.[targetLang]) : s),
+          translating: false,
+          translationProgress: undefined,
+          notice: missing.length > 0
+            ? `${missing.length} segment${missing.length === 1 ? '' : 's'} could not be translated (first at ${segments[missing[0]].startTime}) — run Translate again to retry.`
+            : undefined,
+        }));
+        // Show the new language next to whichever one the pane was already showing
+        setPanes(prev => prev.map(p => p.id === paneId ? { ...p, shownLanguages: showLanguage(p.shownLanguages, targetLang) } : p));
       } catch (err: any) {
-        if (err.name === 'AbortError') {
-          setResults(prev => ({ ...prev, [side]: { ...prev[side], loading: false, error: 'Canceled' } }));
-        } else {
-          setResults(prev => ({ ...prev, [side]: { ...prev[side], error: err.message, loading: false } }));
-        }
+        // Keep the transcript; the failure is shown in the pane rather than a blocking alert
+        const notice = err.name === 'AbortError' ? 'Translation stopped.' : `Translation failed: ${err.message}`;
+        updateResult(paneId, { translating: false, translationProgress: undefined, notice });
       } finally {
-        abortControllersRef.current[side] = null;
+        if (abortControllersRef.current[paneId] === controller) abortControllersRef.current[paneId] = null;
       }
     };
+    await Promise.all(targets.map(p => runTranslate(p.id)));
+  };
 
-    const promises = [];
-    if (modelSelection === 'both' || modelSelection === 'left') {
-      promises.push(runTranscription('left'));
-    }
-    if (modelSelection === 'both' || modelSelection === 'right') {
-      promises.push(runTranscription('right'));
+  const handleRenameSpeaker = (paneId: string, from: string, to: string) => {
+    const segments = results[paneId]?.segments;
+    if (segments) commitEdit(paneId, renameSpeaker(segments, from, to));
+  };
+
+  const lintLevels = useMemo(
+    () => ({ ...LINT_TARGETS[lintTarget].levels, ...lintOverrides[lintTarget] }),
+    [lintTarget, lintOverrides]
+  );
+
+  const handleLintLevelChange = (rule: LintRuleId, level: LintLevel) => {
+    setLintOverrides(prev => ({ ...prev, [lintTarget]: { ...prev[lintTarget], [rule]: level } }));
+  };
+
+  const handleLintFix = (paneId: string, issue: LintIssue) => {
+    const segments = results[paneId]?.segments;
+    if (segments) commitEdit(paneId, applyLintFix(segments, issue, LINT_TARGETS[lintTarget]));
+  };
+
+  // A region edge dragged on the timeline
+  const handleRegionRetime = (paneId: string, index: number, start: number, end: number) => {
+    handleEditSegments(paneId, segments => segments.map((s, i) =>
+      i === index ? { ...s, startTime: secondsToTimestamp(start), endTime: secondsToTimestamp(end) } : s));
+  };
+
+  // Segment edits from the pane; the result is re-checked like fresh model output
+  const handleEditSegments = (paneId: string, transform: (segments: TranscriptionSegment[]) => TranscriptionSegment[]): boolean => {
+    const before = results[paneId]?.segments;
+    if (!before || !isEditable(paneId)) return false;
+    try {
+      commitEdit(paneId, enforceMonotonicity(transform(before)), { notice: undefined });
+      return true;
+    } catch (err: any) {
+      updateResult(paneId, { notice: `Edit failed: ${err.message}` });
+      return false;
     }
+  };
 
-    await Promise.all(promises);
+  const handleUndo = (paneId: string) => {
+    if (!isEditable(paneId)) return;
+    const step = undoEdit(editHistory[paneId] ?? EMPTY_HISTORY, results[paneId]?.segments ?? []);
+    if (!step) return;
+    setEditHistory(prev => ({ ...prev, [paneId]: step.history }));
+    updateResult(paneId, { segments: step.segments });
   };
 
-  const stopTranscription = (side: 'left' | 'right') => {
-    const controller = abortControllersRef.current[side];
-    if (controller) {
-      controller.abort();
-      abortControllersRef.current[side] = null;
+  const handleRedo = (paneId: string) => {
+    if (!isEditable(paneId)) return;
+    const step = redoEdit(editHistory[paneId] ?? EMPTY_HISTORY, results[paneId]?.segments ?? []);
+    if (!step) return;
+    setEditHistory(prev => ({ ...prev, [paneId]: step.history }));
+    updateResult(paneId, { segments: step.segments });
+  };
+
+  // Speech detection runs once per audio file; its regions are shared by every pane
+  const handleAnalyzeSpeech = async (paneId: string) => {
+    if (!audioFile || speechAnalyzing) return;
+    const run = ++speechRunRef.current;
+    setSpeechAnalyzing(true);
+    try {
+      const regions = await analyzeSpeech(audioFile.base64);
+      if (run === speechRunRef.current) setSpeech(regions);
+    } catch (err: any) {
+      if (run === speechRunRef.current) updateResult(paneId, { notice: `Speech detection failed: ${err.message}` });
+    } finally {
+      if (run === speechRunRef.current) setSpeechAnalyzing(false);
     }
   };
 
-  const handleTranslate = async () => {
-    setResults(prev => ({
-      left: { ...prev.left, translating: true },
-      right: { ...prev.right, translating: true }
-    }));
-    const runTranslate = async (side: 'left' | 'right') => {
-      if (results[side].segments.length === 0) return;
+  // Timing tools: the result is kept inside the audio and re-checked like fresh model output
+  const handleRetime = (paneId: string, transform: (segments: TranscriptionSegment[]) => TranscriptionSegment[], label: string) => {
+    const before = results[paneId]?.segments;
+    if (!before?.length || !isEditable(paneId)) return;
+    try {
+      const segments = enforceMonotonicity(clampToAudio(transform(before), audioRef.current?.duration));
+      const dropped = before.length - segments.length;
+      commitEdit(paneId, segments, {
+        notice: `${label}: retimed ${segments.length} segment${segments.length === 1 ? '' : 's'}${dropped > 0 ? `, removed ${dropped} outside the audio` : ''}.`,
+      });
+    } catch (err: any) {
+      updateResult(paneId, { notice: `${label} failed: ${err.message}` });
+    }
+  };
+
+  const handleImportClick = (paneId: string) => {
+    importTargetRef.current = paneId;
+    importInputRef.current?.click();
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const paneId = importTargetRef.current;
+    stopTranscription(paneId);
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
       try {
-        const translated = await translateSegments(results[side].segments, targetLang);
-        setResults(prev => ({ ...prev, [side]: { ...prev[side], segments: translated, translating: false } }));
+        const segments = importSubtitles(file.name, e.target?.result as string, audioRef.current?.duration);
+        if (segments.length === 0) throw new Error(`No timed lines found in ${file.name}`);
+        clearEditHistory(paneId);
+        updateResult(paneId, { segments, loading: false, error: undefined, chunks: undefined, importedFrom: file.name, granularity: undefined });
       } catch (err: any) {
-        alert(`Translation failed: ${err.message}`);
-        setResults(prev => ({ ...prev, [side]: { ...prev[side], translating: false } }));
+        updateResult(paneId, { segments: [], loading: false, error: `Import failed: ${err.message}`, chunks: undefined, importedFrom: undefined });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleReferenceFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const content = e.target?.result as string;
+      let text = content;
+      // Subtitle references are flattened to their text; anything else is taken as plain text
+      if (!file.name.toLowerCase().endsWith('.txt')) {
+        try {
+          text = importSubtitles(file.name, content).map(s => s.text).join('\n');
+        } catch (err) {
+          text = content;
+        }
       }
+      setAudioFile(prev => prev ? { ...prev, reference: { fileName: file.name, text } } : prev);
     };
-    await Promise.all(['left', 'right'].map((s: any) => runTranslate(s as 'left' | 'right')));
+    reader.readAsText(file);
+  };
+
+  const handleRemoveReference = () => {
+    setAudioFile(prev => prev ? { ...prev, reference: undefined } : prev);
   };
 
-  const handleDownload = (side: 'left' | 'right', format: string, type: 'original' | 'translated') => {
-    const segments = results[side].segments;
+  /** Exports one pane in `format`; `language` picks a translation, null the original transcript. */
+  const handleDownload = (paneId: string, format: string, language: string | null, secondLanguage?: string | null) => {
+    const result = results[paneId];
+    const pane = panes.find(p => p.id === paneId);
+    const segments = result.segments;
     if (segments.length === 0) return;
     const baseFileName = audioFile?.fileName.split('.').slice(0, -1).join('.') || 'audio';
-    const filename = `${baseFileName}_${results[side].modelName}${type === 'translated' ? '_translated' : ''}.${format.toLowerCase()}`;
+    const fileLabel = (l: string | null) => l ? l.replace(/[\\/:*?"<>|\s]+/g, '_') : 'original';
+    const languageSuffix = secondLanguage !== undefined
+      ? `_${fileLabel(language)}+${fileLabel(secondLanguage)}`
+      : language ? `_${fileLabel(language)}` : '';
+    const filename = `${baseFileName}_${result.modelName}${languageSuffix}.${format.toLowerCase()}`;
     const totalDuration = audioRef.current?.duration;
+    const segmentation = SEGMENTATION_PRESETS[segmentationPreset]?.constraints;
+    const vttOptions: Exporters.VTTOptions = {
+      ...Exporters.VTT_CUE_PRESETS[vttPreset]?.settings,
+      wordTimestamps: result.granularity === 'word',
+      modelName: result.importedFrom ? undefined : result.modelName,
+      sourceName: result.importedFrom || audioFile?.fileName,
+      segmentation,
+    };
 
     let content = "";
+    if (secondLanguage !== undefined) {
+      // Bilingual: `language` on top, `secondLanguage` below
+      const tracks: Exporters.BilingualTracks = { top: language, bottom: secondLanguage };
+      switch (format) {
+        case 'SRT': content = Exporters.exportAsBilingualSRT(segments, tracks, segmentation); break;
+        case 'VTT': content = Exporters.exportAsBilingualVTT(segments, tracks, vttOptions); break;
+        case 'TTML': content = Exporters.exportAsBilingualTTML(segments, tracks, { sourceLanguage: sourceLang || undefined, segmentation }); break;
+        case 'ASS':
+          content = Exporters.exportAsBilingualASS(segments, tracks, { preset: Exporters.ASS_PRESETS[assPreset], title: baseFileName, segmentation });
+          break;
+        default: return;
+      }
+      Exporters.downloadFile(content, filename);
+      return;
+    }
+
     switch (format) {
-      case 'TXT': content = Exporters.exportAsTXT(segments, type); break;
-      case 'JSON': content = Exporters.exportAsJSON(segments, type); break;
-      case 'SRT': content = Exporters.exportAsSRT(segments, type); break;
-      case 'LRC': content = Exporters.exportAsLRC(segments, type, totalDuration); break;
-      case 'TTML': content = Exporters.exportAsTTML(segments, type); break;
+      case 'TXT': content = Exporters.exportAsTXT(segments, language, segmentation); break;
+      case 'JSON': content = Exporters.exportAsJSON(segments, language, segmentation); break;
+      case 'SRT': content = Exporters.exportAsSRT(segments, language, segmentation); break;
+      case 'LRC': content = Exporters.exportAsLRC(segments, language, totalDuration, segmentation); break;
+      case 'TTML': content = Exporters.exportAsTTML(segments, language, { sourceLanguage: sourceLang || undefined, segmentation }); break;
+      case 'VTT': content = Exporters.exportAsVTT(segments, language, vttOptions); break;
+      case 'ASS':
+        content = Exporters.exportAsASS(segments, language, {
+          preset: Exporters.ASS_PRESETS[assPreset],
+          karaoke: result.granularity === 'word',
+          // The pane's first shown translation rides along as the styled second line
+          translationLanguage: shownTranslations(pane?.shownLanguages, listTranslationLanguages(segments))[0],
+          title: baseFileName,
+          segmentation,
+        });
+        break;
     }
     Exporters.downloadFile(content, filename);
   };
 
-  const isTranscribing = results.left.loading || results.right.loading;
-  const isTranslating = results.left.translating || results.right.translating;
-  const hasResults = results.left.segments.length > 0 || results.right.segments.length > 0;
+  // Compare mode diffs two panes; stale ids (removed panes) fall back to the first panes with results
+  const comparable = panes.filter(p => results[p.id]?.segments.length > 0);
+  const canCompare = comparable.length >= 2;
+  const comparableIds = comparable.map(p => p.id);
+  const compareA = comparableIds.includes(comparePair[0]) ? comparePair[0] : comparableIds[0];
+  const compareB = comparableIds.includes(comparePair[1]) && comparePair[1] !== compareA
+    ? comparePair[1]
+    : comparableIds.find(id => id !== compareA);
+  const isComparing = compareMode && canCompare;
+  const compareSegmentsA = isComparing ? results[compareA].segments : null;
+  const compareSegmentsB = isComparing && compareB ? results[compareB].segments : null;
+
+  const diff = useMemo(() => {
+    if (!compareSegmentsA || !compareSegmentsB) return null;
+    return diffTranscripts(compareSegmentsA, compareSegmentsB);
+  }, [compareSegmentsA, compareSegmentsB]);
+
+  const reference = audioFile?.reference;
+  const scores = useMemo(() => {
+    const byPane: Record<string, TranscriptScore | null> = {};
+    for (const pane of panes) {
+      const segments = results[pane.id]?.segments ?? [];
+      byPane[pane.id] = reference && segments.length > 0 ? scoreTranscript(reference.text, segments, normalization) : null;
+    }
+    return byPane;
+  }, [reference, normalization, panes, results]);
+
+  // Post-check of every translation each pane holds against that language's glossary
+  const glossaryIssues = useMemo(() => {
+    const byPane: Record<string, GlossaryIssue[]> = {};
+    for (const pane of panes) {
+      const segments = results[pane.id]?.segments ?? [];
+      byPane[pane.id] = listTranslationLanguages(segments)
+        .flatMap(language => checkGlossary(segments, glossaryRules(glossary, language), language));
+    }
+    return byPane;
+  }, [glossary, panes, results]);
+
+  const paneLabel = (paneId: string) => {
+    const index = panes.findIndex(p => p.id === paneId);
+    return `${index + 1}. ${results[paneId]?.modelName ?? ''}`;
+  };
+
+  const resultList = panes.map(p => results[p.id]).filter(Boolean);
+  const isTranscribing = resultList.some(r => r.loading);
+  const isTranslating = resultList.some(r => r.translating);
+  const hasResults = resultList.some(r => r.segments.length > 0);
   const canClear = audioFile !== null || urlInput !== "" || hasResults;
 
+  // Autosave: a reload or "New Session" should never lose paid model runs
+  useEffect(() => {
+    if (!audioFile && !hasResults) return;
+    const timer = window.setTimeout(persistSession, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [audioFile, panes, results, targetLang, sourceLang, glossary, sessionName, sessionId]);
+
   return (
     <div ref={appContainerRef} className="h-screen flex flex-col bg-slate-100 overflow-hidden font-sans">
       <header className="bg-white border-b border-slate-200 px-4 md:px-6 py-3 md:py-4 flex-shrink-0 z-30 shadow-sm overflow-y-auto max-h-[40vh] md:max-h-none">
@@ -394,6 +1288,40 @@ const App: React.FC = () => {
             </h1>
             
             <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowHistory(prev => !prev)}
+                title="Saved sessions"
+                className={`p-2 md:px-4 md:py-2 rounded-xl border shadow-sm transition-all flex items-center gap-2 ${showHistory ? 'bg-slate-900 text-white border-slate-900' : 'text-slate-600 hover:bg-slate-100 border-slate-200 bg-white'}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
+                <span className="hidden md:inline text-xs font-semibold">History</span>
+              </button>
+              <input
+                type="file"
+                accept={`${PROJECT_FILE_EXTENSION},.json`}
+                className="hidden"
+                ref={projectInputRef}
+                onChange={handleImportProject}
+              />
+              <button
+                onClick={() => projectInputRef.current?.click()}
+                disabled={isTranscribing || isRecording}
+                title="Open a project bundle shared by someone else"
+                className="p-2 md:px-4 md:py-2 text-slate-600 hover:bg-slate-100 rounded-xl border border-slate-200 bg-white shadow-sm transition-all flex items-center gap-2 disabled:opacity-50"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"/></svg>
+                <span className="hidden md:inline text-xs font-semibold">Open Project</span>
+              </button>
+              {canClear && (
+                <button
+                  onClick={handleExportProject}
+                  title="Save audio, every pane, translations and settings as one shareable file"
+                  className="p-2 md:px-4 md:py-2 text-slate-600 hover:bg-slate-100 rounded-xl border border-slate-200 bg-white shadow-sm transition-all flex items-center gap-2"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" x2="12" y1="15" y2="3"/></svg>
+                  <span className="hidden md:inline text-xs font-semibold">Export Project</span>
+                </button>
+              )}
               {canClear && (
                 <button 
                   onClick={handleNewSession}
@@ -440,6 +1368,13 @@ const App: React.FC = () => {
               ref={fileInputRef} 
               onChange={handleFileUpload} 
             />
+            <input
+              type="file"
+              accept=".srt,.vtt,.lrc,.ttml,.dfxp,.xml,.json"
+              className="hidden"
+              ref={importInputRef}
+              onChange={handleImportFile}
+            />
             <button 
               onClick={() => fileInputRef.current?.click()} 
               disabled={isRecording}
@@ -447,6 +1382,24 @@ const App: React.FC = () => {
             >
               {audioFile ? 'Change File' : 'Upload File'}
             </button>
+
+            {/* Reference Transcript */}
+            <input
+              type="file"
+              accept=".txt,.srt,.vtt,.lrc,.ttml,.dfxp,.xml,.json"
+              className="hidden"
+              ref={referenceInputRef}
+              onChange={handleReferenceFile}
+            />
+            {audioFile && (
+              <button
+                onClick={() => referenceInputRef.current?.click()}
+                title="Attach a ground-truth transcript to score each model (WER/CER)"
+                className="px-3 md:px-4 py-2 text-xs md:text-sm font-semibold text-slate-700 bg-white border border-slate-300 rounded-xl hover:bg-slate-50 shadow-sm transition-all whitespace-nowrap"
+              >
+                {reference ? 'Change Reference' : 'Add Reference'}
+              </button>
+            )}
             
             {/* Record */}
             <button 
@@ -462,43 +1415,49 @@ const App: React.FC = () => {
               {isRecording ? `Stop (${recordingTime}s)` : 'Record'}
             </button>
 
-            {/* Granularity Switch */}
-            <div className="flex items-center bg-white rounded-xl border border-slate-300 overflow-hidden shadow-sm">
-              <button 
-                onClick={() => setGranularity('line')}
-                className={`px-3 py-2 text-xs font-semibold transition-colors ${granularity === 'line' ? 'bg-slate-100 text-slate-900' : 'text-slate-500 hover:bg-slate-50'}`}
-                disabled={isTranscribing}
-              >
-                Line
-              </button>
-              <div className="w-px h-full bg-slate-200"></div>
-              <button 
-                onClick={() => setGranularity('word')}
-                className={`px-3 py-2 text-xs font-semibold transition-colors ${granularity === 'word' ? 'bg-slate-100 text-slate-900' : 'text-slate-500 hover:bg-slate-50'}`}
+            {/* Chunking Toggle */}
+            <label
+              title="Split long recordings into overlapping chunks transcribed one after another"
+              className={`px-3 py-2 text-xs font-semibold bg-white rounded-xl border border-slate-300 shadow-sm flex items-center gap-2 whitespace-nowrap cursor-pointer select-none ${isTranscribing ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-50'}`}
+            >
+              <input
+                type="checkbox"
+                checked={chunking}
+                onChange={(e) => setChunking(e.target.checked)}
                 disabled={isTranscribing}
-              >
-                Word
-              </button>
-            </div>
+                className="accent-blue-600"
+              />
+              <span className={chunking ? 'text-slate-900' : 'text-slate-500'}>Chunk long audio</span>
+            </label>
 
             <div className="w-px h-6 bg-slate-300 mx-1 hidden lg:block"></div>
 
-            {/* Model Selection */}
+            {/* Backend Selection */}
             <select
-              value={modelSelection}
-              onChange={(e) => setModelSelection(e.target.value as ModelSelection)}
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value)}
               disabled={isTranscribing || isRecording}
+              title="Transcription backend. The offline mocks return fixture data without network access."
               className="text-xs md:text-sm font-medium border-slate-300 rounded-xl py-2 px-2 bg-white shadow-sm text-slate-900 focus:ring-2 focus:ring-blue-500 outline-none border hover:bg-slate-50 cursor-pointer disabled:opacity-50"
             >
-              <option value="both">Both Models</option>
-              <option value="left">Gemini 2.5 Only</option>
-              <option value="right">Gemini 3 Only</option>
+              {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
             </select>
 
+            {/* Pane Management */}
+            <button
+              onClick={handleAddPane}
+              disabled={panes.length >= PANE_ACCENTS.length}
+              title="Add another pane to compare a different model or prompt settings"
+              className="px-3 md:px-4 py-2 text-xs md:text-sm font-semibold text-slate-700 bg-white border border-slate-300 rounded-xl hover:bg-slate-50 shadow-sm transition-all whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              + Add Pane
+            </button>
+
             {/* Transcribe Button */}
             <button
               disabled={!audioFile || isTranscribing || isRecording}
-              onClick={startTranscription}
+              onClick={() => startTranscription()}
+              title="Run every pane"
               className={`px-4 md:px-6 py-2 text-xs md:text-sm font-bold text-white rounded-xl shadow-lg transition-all whitespace-nowrap flex items-center justify-center gap-2 min-w-[120px] ${
                 !audioFile || isTranscribing || isRecording 
                 ? 'bg-slate-300 cursor-not-allowed' 
@@ -522,6 +1481,16 @@ const App: React.FC = () => {
             {hasResults && (
               <>
                 <div className="w-px h-6 bg-slate-300 mx-1 hidden lg:block"></div>
+                <select
+                  value={sourceLang}
+                  onChange={(e) => setSourceLang(e.target.value)}
+                  disabled={isRecording}
+                  title="Language spoken in the audio, declared in TTML exports"
+                  className="text-xs md:text-sm font-medium border-slate-300 rounded-xl py-2 px-2 md:px-3 bg-white shadow-sm text-slate-900 focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50 border max-w-[150px]"
+                >
+                  <option value="">Spoken: unspecified</option>
+                  {LANGUAGES.map(l => <option key={l} value={l}>Spoken: {l}</option>)}
+                </select>
                 <select
                   value={targetLang}
                   onChange={(e) => setTargetLang(e.target.value)}
@@ -551,6 +1520,80 @@ const App: React.FC = () => {
                     'Translate'
                   )}
                 </button>
+                <button
+                  onClick={() => showSearch ? handleCloseSearch() : setShowSearch(true)}
+                  title="Search every pane, and find and replace text in bulk"
+                  className={`px-3 md:px-4 py-2 text-xs md:text-sm font-semibold rounded-xl shadow-sm transition-all whitespace-nowrap border ${
+                    showSearch ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'
+                  }`}
+                >
+                  Find
+                </button>
+                <button
+                  onClick={() => setShowGlossary(prev => !prev)}
+                  title="Term pairs and do-not-translate names enforced when translating"
+                  className={`px-3 md:px-4 py-2 text-xs md:text-sm font-semibold rounded-xl shadow-sm transition-all whitespace-nowrap border ${
+                    showGlossary ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'
+                  }`}
+                >
+                  Glossary
+                </button>
+                <button
+                  disabled={!canCompare}
+                  onClick={() => setCompareMode(prev => !prev)}
+                  title="Align two transcripts word by word"
+                  className={`px-3 md:px-4 py-2 text-xs md:text-sm font-semibold rounded-xl shadow-sm transition-all whitespace-nowrap border disabled:opacity-50 disabled:cursor-not-allowed ${
+                    isComparing ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'
+                  }`}
+                >
+                  {isComparing ? 'Exit Compare' : 'Compare'}
+                </button>
+                {isComparing && comparable.length > 2 && (
+                  <div className="flex items-center gap-1">
+                    {([0, 1] as const).map(slot => (
+                      <select
+                        key={slot}
+                        value={slot === 0 ? compareA : compareB}
+                        onChange={(e) => setComparePair(prev => slot === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value])}
+                        title={slot === 0 ? 'Base transcript' : 'Transcript compared against the base'}
+                        className="text-xs font-medium border-slate-300 rounded-xl py-2 px-2 bg-white shadow-sm text-slate-900 focus:ring-2 focus:ring-blue-500 outline-none border hover:bg-slate-50 cursor-pointer max-w-[180px]"
+                      >
+                        {comparable.map(p => <option key={p.id} value={p.id}>{paneLabel(p.id)}</option>)}
+                      </select>
+                    ))}
+                  </div>
+                )}
+                <select
+                  value={assPreset}
+                  onChange={(e) => setAssPreset(e.target.value)}
+                  title="Style preset used for ASS exports"
+                  className="text-xs md:text-sm font-medium border-slate-300 rounded-xl py-2 px-2 bg-white shadow-sm text-slate-900 focus:ring-2 focus:ring-blue-500 outline-none border hover:bg-slate-50 cursor-pointer"
+                >
+                  {Object.entries(Exporters.ASS_PRESETS).map(([key, preset]) => (
+                    <option key={key} value={key}>ASS: {preset.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={vttPreset}
+                  onChange={(e) => setVttPreset(e.target.value)}
+                  title="Cue placement (align, line, position, size) written into VTT exports"
+                  className="text-xs md:text-sm font-medium border-slate-300 rounded-xl py-2 px-2 bg-white shadow-sm text-slate-900 focus:ring-2 focus:ring-blue-500 outline-none border hover:bg-slate-50 cursor-pointer"
+                >
+                  {Object.entries(Exporters.VTT_CUE_PRESETS).map(([key, preset]) => (
+                    <option key={key} value={key}>VTT: {preset.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={segmentationPreset}
+                  onChange={(e) => setSegmentationPreset(e.target.value)}
+                  title="Rebuild exported cues to fit line length, reading speed and timing limits"
+                  className="text-xs md:text-sm font-medium border-slate-300 rounded-xl py-2 px-2 bg-white shadow-sm text-slate-900 focus:ring-2 focus:ring-blue-500 outline-none border hover:bg-slate-50 cursor-pointer"
+                >
+                  <option value="">Cues: As transcribed</option>
+                  {Object.entries(SEGMENTATION_PRESETS).map(([key, preset]) => (
+                    <option key={key} value={key}>Cues: {preset.label}</option>
+                  ))}
+                </select>
               </>
             )}
 
@@ -566,121 +1609,164 @@ const App: React.FC = () => {
                 ref={audioRef}
                 src={audioFile.previewUrl}
                 onTimeUpdate={handleTimeUpdate}
+                onPause={handlePause}
+                onPlay={handlePlay}
                 controls
                 className="h-9 w-full md:flex-1"
               />
+              <PlaybackControls
+                settings={playback}
+                segmentLoop={!!segmentLoop}
+                abLoop={abLoop}
+                onChange={handlePlaybackChange}
+                onToggleSegmentLoop={handleToggleSegmentLoop}
+                onAbLoop={handleAbLoop}
+              />
+              <button
+                onClick={() => setShowTimeline(prev => !prev)}
+                title="Waveform with each pane's segments"
+                className={`px-3 py-1.5 text-xs font-semibold rounded-xl shadow-sm transition-all whitespace-nowrap border ${
+                  showTimeline ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'
+                }`}
+              >
+                Timeline
+              </button>
+            </div>
+          )}
+          {audioFile && showTimeline && (
+            <div className="pt-2">
+              <WaveformTimeline
+                waveform={waveform}
+                loading={waveformLoading}
+                speech={speech}
+                currentTime={currentTime}
+                lanes={panes.filter(p => results[p.id]?.segments.length > 0).map(p => ({
+                  id: p.id,
+                  label: paneLabel(p.id),
+                  regionClass: PANE_ACCENTS[panes.indexOf(p) % PANE_ACCENTS.length].region,
+                  segments: results[p.id].segments,
+                  activeIndex: activeIndices[p.id] ?? -1,
+                  editable: isEditable(p.id),
+                }))}
+                onSeek={handleSeek}
+                onRetime={handleRegionRetime}
+              />
             </div>
           )}
+          {reference && (
+            <ReferenceBar
+              reference={reference}
+              normalization={normalization}
+              onNormalizationChange={setNormalization}
+              onRemove={handleRemoveReference}
+            />
+          )}
         </div>
       </header>
 
-      <div className="flex-1 overflow-hidden px-1 py-1 md:px-2 md:py-2 flex flex-col">
-        <main className="flex-1 w-full max-w-full mx-auto bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden grid grid-cols-1 md:grid-cols-2 gap-px relative">
-          {(['left', 'right'] as const).map((side) => {
-            const activeIdx = activeIndices[side];
-            const isLoading = results[side].loading;
-            const isTranslatingLocal = results[side].translating;
-            const hasTranslated = results[side].segments.some(s => s.translatedText);
-            const error = results[side].error;
-
-            return (
-              <div key={side} className="flex flex-col h-full min-h-0 bg-white">
-                <div className={`px-4 py-2 border-b border-slate-200 flex-shrink-0 z-10 ${side === 'left' ? 'bg-slate-50/50' : 'bg-indigo-50/30'}`}>
-                  <div className="flex items-center justify-between mb-1">
-                    <h2 className="text-[10px] md:text-xs font-black text-slate-800 uppercase tracking-widest flex items-center gap-2">
-                      <span className={`w-2 h-2 rounded-full ${side === 'left' ? 'bg-blue-500' : 'bg-indigo-500'}`}></span>
-                      {results[side].modelName}
-                    </h2>
-                    {results[side].segments.length > 0 && (
-                      <div className="flex items-center gap-2">
-                        {isTranslatingLocal && <span className="animate-spin h-3 w-3 border-2 border-indigo-600 border-t-transparent rounded-full"></span>}
-                        <span className="text-[9px] bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-black">
-                          {results[side].segments.length}
-                        </span>
-                      </div>
-                    )}
-                  </div>
-                  {results[side].segments.length > 0 && (
-                    <div className="flex flex-col gap-1.5 overflow-hidden">
-                      <div className="flex items-center gap-2 overflow-x-auto pb-0.5 no-scrollbar">
-                        <span className="text-[8px] font-bold text-slate-400 uppercase min-w-[32px]">Orig:</span>
-                        {['TXT', 'SRT', 'LRC', 'TTML', 'JSON'].map(format => (
-                          <button 
-                            key={format} 
-                            onClick={() => handleDownload(side, format, 'original')} 
-                            className="px-2 py-0.5 text-[9px] font-black border border-slate-200 rounded bg-white hover:bg-slate-50 text-slate-600 shadow-sm transition-all whitespace-nowrap"
-                          >
-                            {format}
-                          </button>
-                        ))}
-                      </div>
-                      {hasTranslated && (
-                        <div className="flex items-center gap-2 overflow-x-auto pb-0.5 no-scrollbar">
-                          <span className="text-[8px] font-bold text-indigo-400 uppercase min-w-[32px]">Tran:</span>
-                          {['TXT', 'SRT', 'LRC', 'TTML', 'JSON'].map(format => (
-                            <button 
-                              key={format} 
-                              onClick={() => handleDownload(side, format, 'translated')} 
-                              className="px-2 py-0.5 text-[9px] font-black border border-indigo-100 rounded bg-indigo-50 hover:bg-indigo-100 text-indigo-600 shadow-sm transition-all whitespace-nowrap"
-                            >
-                              {format}
-                            </button>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
-
-                <div className="flex-1 overflow-y-auto overflow-x-hidden relative bg-white scrolling-touch p-0 min-h-0">
-                  {isLoading ? (
-                    <div className="h-full flex flex-col items-center justify-center p-8">
-                      <div className={`animate-spin rounded-full h-12 w-12 border-4 ${
-                          side === 'left' ? 'border-blue-100 border-t-blue-500' : 'border-indigo-100 border-t-indigo-500'
-                      }`}></div>
-                      <button 
-                        onClick={() => stopTranscription(side)}
-                        className="mt-6 px-4 py-1.5 bg-white border border-red-100 text-red-500 text-[10px] font-bold rounded-full hover:bg-red-50 transition-colors uppercase tracking-wide"
-                      >
-                        Stop Generation
-                      </button>
-                    </div>
-                  ) : results[side].segments.length > 0 ? (
-                    <div className="space-y-0.5">
-                      {results[side].segments.map((s, idx) => (
-                        <SegmentItem
-                          key={`${side}-${idx}-${s.startTime}`}
-                          segment={s}
-                          isActive={activeIdx === idx}
-                          isManualSeek={lastInteractedSide === side}
-                          onSelect={(ts) => handleSegmentClick(ts, side)}
-                        />
-                      ))}
-                    </div>
-                  ) : error ? (
-                    <div className="h-full flex flex-col items-center justify-center p-8 text-center text-slate-400">
-                      <div className="bg-red-50 p-3 rounded-full mb-3">
-                         <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-red-500"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="8" x2="12" y2="12"></line><line x1="12" y1="16" x2="12.01" y2="16"></line></svg>
-                      </div>
-                      <p className="text-xs font-bold text-red-600">{error}</p>
-                    </div>
-                  ) : (
-                    <div className="h-full flex flex-col items-center justify-center p-8 text-center opacity-25">
-                      <svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"><path d="M2 10v3"/><path d="M6 6v11"/><path d="M10 3v18"/><path d="M14 8v7"/><path d="M18 5v13"/><path d="M22 10v3"/></svg>
-                      <p className="mt-4 text-[10px] md:text-xs font-black uppercase tracking-widest">Awaiting Audio</p>
-                    </div>
-                  )}
-                </div>
-              </div>
-            );
-          })}
+      <div className="flex-1 overflow-hidden px-1 py-1 md:px-2 md:py-2 flex flex-col md:flex-row gap-2">
+        {showHistory && (
+          <HistorySidebar
+            sessions={sessions}
+            currentId={sessionId}
+            usage={storageUsage}
+            notice={historyNotice}
+            busy={isTranscribing || isRecording}
+            onOpen={handleOpenSession}
+            onRename={handleRenameSession}
+            onDuplicate={handleDuplicateSession}
+            onDelete={handleDeleteSession}
+            onCleanup={handleCleanup}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+        {showSearch && (
+          <SearchPanel
+            options={search}
+            pattern={searchPattern}
+            error={searchError}
+            scope={searchScope}
+            panes={panes.map(p => ({
+              id: p.id,
+              label: paneLabel(p.id),
+              segments: results[p.id]?.segments ?? [],
+              matchCount: searchMatches[p.id]?.length ?? 0,
+              editable: isEditable(p.id),
+            }))}
+            total={orderedMatches.length}
+            cursor={searchCursor}
+            onOptionsChange={(patch) => setSearch(prev => ({ ...prev, ...patch }))}
+            onScopeChange={setSearchScope}
+            onStep={handleSearchStep}
+            onReplace={handleReplace}
+            onClose={handleCloseSearch}
+          />
+        )}
+        {showGlossary && (
+          <GlossaryPanel
+            glossary={glossary}
+            languages={LANGUAGES}
+            initialLanguage={targetLang}
+            onChange={setGlossary}
+            onClose={() => setShowGlossary(false)}
+          />
+        )}
+        <main className="flex-1 w-full min-w-0 max-w-full mx-auto bg-white rounded-xl shadow-2xl border border-slate-200 overflow-x-auto overflow-y-hidden flex flex-col md:flex-row gap-px relative">
+          {diff && compareB ? (
+            <DiffView
+              diff={diff}
+              leftLabel={paneLabel(compareA)}
+              rightLabel={paneLabel(compareB)}
+              onSeek={handleSeek}
+            />
+          ) : panes.map((pane, index) => (
+            <TranscriptionPane
+              key={pane.id}
+              pane={pane}
+              result={results[pane.id]}
+              accent={PANE_ACCENTS[index % PANE_ACCENTS.length]}
+              activeIndex={activeIndices[pane.id] ?? -1}
+              currentTime={currentTime}
+              isManualSeek={lastInteractedPane === pane.id}
+              score={scores[pane.id] ?? null}
+              glossaryIssues={glossaryIssues[pane.id] ?? []}
+              canRemove={panes.length > 1}
+              disabled={!audioFile || isRecording}
+              onConfigChange={(patch) => handlePaneConfigChange(pane.id, patch)}
+              onRemove={() => handleRemovePane(pane.id)}
+              onRun={() => startTranscription([pane])}
+              onStop={() => stopTranscription(pane.id)}
+              onImport={() => handleImportClick(pane.id)}
+              onDownload={(format, language, secondLanguage) => handleDownload(pane.id, format, language, secondLanguage)}
+              onRenameSpeaker={(from, to) => handleRenameSpeaker(pane.id, from, to)}
+              onRetryChunk={(chunkIndex) => retryChunk(pane, chunkIndex)}
+              onSelectSegment={(ts) => handleSegmentClick(ts, pane.id)}
+              onDismissNotice={() => updateResult(pane.id, { notice: undefined })}
+              lintTarget={lintTarget}
+              lintLevels={lintLevels}
+              onLintTargetChange={setLintTarget}
+              onLintLevelChange={handleLintLevelChange}
+              onLintFix={(issue) => handleLintFix(pane.id, issue)}
+              onRetime={(transform, label) => handleRetime(pane.id, transform, label)}
+              speech={speech}
+              speechAnalyzing={speechAnalyzing}
+              onAnalyzeSpeech={() => handleAnalyzeSpeech(pane.id)}
+              canUndo={(editHistory[pane.id]?.past.length ?? 0) > 0}
+              canRedo={(editHistory[pane.id]?.future.length ?? 0) > 0}
+              onEditSegments={(transform) => handleEditSegments(pane.id, transform)}
+              onUndo={() => handleUndo(pane.id)}
+              onRedo={() => handleRedo(pane.id)}
+              searchMatches={searchMatches[pane.id] ?? []}
+              currentMatch={currentMatch?.paneId === pane.id ? currentMatch.match : null}
+            />
+          ))}
         </main>
       </div>
 
       <footer className="bg-white border-t border-slate-200 p-2 text-[10px] font-bold text-slate-400 flex-shrink-0">
         <div className="max-w-[98%] mx-auto flex justify-between items-center px-4">
           <div className="flex items-center gap-4">
-            <span className="hidden md:inline bg-slate-100 text-slate-600 px-2 py-0.5 rounded uppercase">Dual Engine Comparative Analysis</span>
+            <span className="hidden md:inline bg-slate-100 text-slate-600 px-2 py-0.5 rounded uppercase">Multi-Engine Comparative Analysis</span>
           </div>
           <div className="font-mono text-[9px] text-slate-500">PLAYHEAD: {currentTime.toFixed(3)}s</div>
         </div>
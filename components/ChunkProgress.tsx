@@ -0,0 +1,57 @@
+
+import React from 'react';
+import { ChunkProgress as ChunkProgressData } from '../types';
+
+interface ChunkProgressProps {
+  chunks: ChunkProgressData[];
+  onRetry: (index: number) => void;
+  disabled?: boolean; // Retries wait until the pane's run or translation has finished
+}
+
+const formatClock = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const STATUS_STYLES: Record<ChunkProgressData['status'], string> = {
+  pending: 'bg-slate-100 text-slate-400 border-slate-200',
+  working: 'bg-blue-50 text-blue-600 border-blue-200 animate-pulse',
+  done: 'bg-green-50 text-green-700 border-green-200',
+  error: 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100 cursor-pointer disabled:hover:bg-red-50 disabled:cursor-default',
+};
+
+const ChunkProgress: React.FC<ChunkProgressProps> = ({ chunks, onRetry, disabled }) => {
+  const doneCount = chunks.filter(c => c.status === 'done').length;
+  const failedCount = chunks.filter(c => c.status === 'error').length;
+  const percent = Math.round((doneCount / chunks.length) * 100);
+
+  return (
+    <div className="flex flex-col gap-1.5 mt-1.5">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-green-500 transition-all duration-300" style={{ width: `${percent}%` }}></div>
+        </div>
+        <span className="text-[9px] font-black text-slate-500 whitespace-nowrap">
+          {doneCount}/{chunks.length} chunks{failedCount > 0 && <span className="text-red-500"> · {failedCount} failed</span>}
+        </span>
+      </div>
+      <div className="flex items-center gap-1 overflow-x-auto pb-0.5 no-scrollbar">
+        {chunks.map(chunk => (
+          <button
+            key={chunk.index}
+            type="button"
+            disabled={disabled || chunk.status !== 'error'}
+            onClick={() => onRetry(chunk.index)}
+            title={chunk.status === 'error' ? `${chunk.error || 'Failed'}${disabled ? '' : ' — click to retry'}` : chunk.status}
+            className={`px-1.5 py-0.5 text-[9px] font-mono font-bold border rounded whitespace-nowrap transition-colors ${STATUS_STYLES[chunk.status]}`}
+          >
+            {formatClock(chunk.startSec)}{chunk.status === 'error' && ' ↻'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ChunkProgress;
@@ -0,0 +1,105 @@
+
+import React, { useMemo } from 'react';
+import { DiffOp, TranscriptDiff } from '../utils/diff';
+
+interface DiffViewProps {
+  diff: TranscriptDiff;
+  leftLabel: string;
+  rightLabel: string;
+  onSeek: (seconds: number) => void;
+}
+
+// Matched words further apart than this get their timing difference shown inline
+const TIMING_HIGHLIGHT_SECONDS = 0.25;
+
+const opTime = (op: DiffOp): number => (op.a ? op.a.time : op.b!.time);
+
+const DiffView: React.FC<DiffViewProps> = ({ diff, leftLabel, rightLabel, onSeek }) => {
+  const { stats } = diff;
+
+  // Break the word stream into paragraphs following the left transcript's segments
+  const paragraphs = useMemo(() => {
+    const groups: DiffOp[][] = [];
+    let lastSeg = -1;
+    for (const op of diff.ops) {
+      const seg = op.a ? op.a.segIndex : lastSeg;
+      if (groups.length === 0 || (op.a && seg !== lastSeg)) groups.push([]);
+      groups[groups.length - 1].push(op);
+      lastSeg = seg;
+    }
+    return groups;
+  }, [diff]);
+
+  const renderOp = (op: DiffOp, key: number) => {
+    const seek = () => onSeek(opTime(op));
+    switch (op.type) {
+      case 'equal': {
+        const delta = op.b!.time - op.a!.time;
+        const showDelta = Math.abs(delta) >= TIMING_HIGHLIGHT_SECONDS;
+        return (
+          <span key={key} title={`Δt ${delta >= 0 ? '+' : ''}${delta.toFixed(3)}s`} className="text-slate-700">
+            {op.a!.text}
+            {showDelta && (
+              <sub className={`ml-0.5 text-[9px] font-mono ${Math.abs(delta) >= 1 ? 'text-orange-500' : 'text-slate-400'}`}>
+                {delta >= 0 ? '+' : ''}{delta.toFixed(2)}
+              </sub>
+            )}{' '}
+          </span>
+        );
+      }
+      case 'substitute':
+        return (
+          <button key={key} type="button" onClick={seek} className="inline hover:underline">
+            <del className="bg-red-50 text-red-600 px-0.5 rounded-sm">{op.a!.text}</del>
+            <ins className="bg-green-50 text-green-700 px-0.5 rounded-sm no-underline">{op.b!.text}</ins>{' '}
+          </button>
+        );
+      case 'delete':
+        return (
+          <button key={key} type="button" onClick={seek} className="inline hover:underline">
+            <del className="bg-red-50 text-red-600 px-0.5 rounded-sm">{op.a!.text}</del>{' '}
+          </button>
+        );
+      case 'insert':
+        return (
+          <button key={key} type="button" onClick={seek} className="inline hover:underline">
+            <ins className="bg-green-50 text-green-700 px-0.5 rounded-sm no-underline">{op.b!.text}</ins>{' '}
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0 bg-white flex-1 min-w-0">
+      <div className="px-4 py-2 border-b border-slate-200 flex-shrink-0 bg-slate-50/50 flex flex-wrap items-center gap-x-4 gap-y-1">
+        <div className="flex items-center gap-2">
+          <span className="text-2xl font-black text-slate-900">{(stats.agreement * 100).toFixed(1)}%</span>
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Agreement</span>
+        </div>
+        <div className="flex items-center gap-2 text-[10px] font-bold">
+          <span className="bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full">{stats.equal} matched</span>
+          <span className="bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">{stats.substitutions} substituted</span>
+          <span className="bg-red-100 text-red-600 px-2 py-0.5 rounded-full">{stats.deletions} only in {leftLabel}</span>
+          <span className="bg-green-100 text-green-700 px-2 py-0.5 rounded-full">{stats.insertions} only in {rightLabel}</span>
+        </div>
+        <span className="text-[10px] font-mono text-slate-500">mean |Δt| {stats.meanTimingOffset.toFixed(3)}s</span>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-3 text-base md:text-lg leading-relaxed">
+        {paragraphs.map((ops, p) => (
+          <p key={p}>
+            <button
+              type="button"
+              onClick={() => onSeek(opTime(ops[0]))}
+              className="mr-2 text-[10px] font-bold font-mono px-1.5 py-0.5 rounded bg-slate-100 text-slate-400 hover:text-slate-600 align-middle"
+            >
+              {opTime(ops[0]).toFixed(1)}s
+            </button>
+            {ops.map((op, i) => renderOp(op, i))}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,163 @@
+
+import React, { useRef, useState } from 'react';
+import { Glossary, GlossaryTerm } from '../types';
+import { glossaryToCsv, mergeGlossaries, parseGlossaryCsv } from '../utils/glossary';
+import { downloadFile } from '../utils/exporters';
+
+interface GlossaryPanelProps {
+  glossary: Glossary;
+  languages: string[];
+  initialLanguage: string; // The current translation target
+  onChange: (glossary: Glossary) => void;
+  onClose: () => void;
+}
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ glossary, languages, initialLanguage, onChange, onClose }) => {
+  const [language, setLanguage] = useState(initialLanguage);
+  const [newSource, setNewSource] = useState("");
+  const [newTarget, setNewTarget] = useState("");
+  const [newKeep, setNewKeep] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const terms = glossary.terms[language] || [];
+  const termCount = Object.keys(glossary.terms).reduce((sum, l) => sum + glossary.terms[l].length, 0);
+
+  const setTerms = (next: GlossaryTerm[]) => {
+    const { [language]: _, ...rest } = glossary.terms;
+    onChange({ ...glossary, terms: next.length > 0 ? { ...rest, [language]: next } : rest });
+  };
+
+  const addTerm = () => {
+    if (!newSource.trim() || !newTarget.trim()) return;
+    onChange(mergeGlossaries(glossary, { terms: { [language]: [{ source: newSource.trim(), target: newTarget.trim() }] }, doNotTranslate: [] }));
+    setNewSource("");
+    setNewTarget("");
+  };
+
+  const addKeep = () => {
+    if (!newKeep.trim()) return;
+    onChange(mergeGlossaries(glossary, { terms: {}, doNotTranslate: [newKeep.trim()] }));
+    setNewKeep("");
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const imported = parseGlossaryCsv(e.target?.result as string);
+        const importedTerms = Object.keys(imported.terms).reduce((sum, l) => sum + imported.terms[l].length, 0);
+        onChange(mergeGlossaries(glossary, imported));
+        setNotice(`Imported ${importedTerms} term${importedTerms === 1 ? '' : 's'} and ${imported.doNotTranslate.length} do-not-translate entr${imported.doNotTranslate.length === 1 ? 'y' : 'ies'}.`);
+      } catch (err: any) {
+        setNotice(`Import failed: ${err.message}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const inputClass = "min-w-0 flex-1 px-1.5 py-1 text-xs border border-slate-200 rounded outline-none focus:border-blue-400";
+
+  return (
+    <aside className="w-full md:w-96 max-h-[40vh] md:max-h-none flex-shrink-0 bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col min-h-0 z-20">
+      <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+        <h2 className="text-xs font-black text-slate-800 uppercase tracking-widest">Glossary</h2>
+        <div className="flex items-center gap-2 text-[9px] font-bold text-slate-500">
+          <input type="file" accept=".csv,text/csv" className="hidden" ref={csvInputRef} onChange={handleImport} />
+          <button onClick={() => csvInputRef.current?.click()} title="Merge terms from a CSV file (type,language,source,target)" className="hover:text-slate-900">Import CSV</button>
+          <button
+            onClick={() => downloadFile(glossaryToCsv(glossary), 'glossary.csv')}
+            disabled={termCount === 0 && glossary.doNotTranslate.length === 0}
+            className="hover:text-slate-900 disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+          <button onClick={onClose} title="Close glossary" className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded text-base leading-none">
+            ×
+          </button>
+        </div>
+      </div>
+
+      {notice && (
+        <div className="px-4 py-2 text-[10px] font-bold text-amber-700 bg-amber-50 border-b border-amber-100">{notice}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto min-h-0">
+        <section className="px-4 py-3 border-b border-slate-100 flex flex-col gap-1.5">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Terms</span>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              title="Target language these term pairs apply to"
+              className="text-[10px] font-bold border border-slate-200 rounded py-0.5 px-1 bg-white text-slate-700 outline-none"
+            >
+              {languages.map(l => (
+                <option key={l} value={l}>{l}{glossary.terms[l]?.length ? ` (${glossary.terms[l].length})` : ''}</option>
+              ))}
+            </select>
+          </div>
+          {terms.map((term, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <input
+                value={term.source}
+                onChange={(e) => setTerms(terms.map((t, j) => j === i ? { ...t, source: e.target.value } : t))}
+                className={inputClass}
+              />
+              <span className="text-slate-300 text-xs">→</span>
+              <input
+                value={term.target}
+                onChange={(e) => setTerms(terms.map((t, j) => j === i ? { ...t, target: e.target.value } : t))}
+                className={inputClass}
+              />
+              <button onClick={() => setTerms(terms.filter((_, j) => j !== i))} title="Remove term" className="w-5 text-slate-400 hover:text-red-600 leading-none">×</button>
+            </div>
+          ))}
+          <form
+            onSubmit={(e) => { e.preventDefault(); addTerm(); }}
+            className="flex items-center gap-1"
+          >
+            <input value={newSource} onChange={(e) => setNewSource(e.target.value)} placeholder="Source term" className={inputClass} />
+            <span className="text-slate-300 text-xs">→</span>
+            <input value={newTarget} onChange={(e) => setNewTarget(e.target.value)} placeholder={`In ${language}`} className={inputClass} />
+            <button type="submit" disabled={!newSource.trim() || !newTarget.trim()} className="w-5 text-blue-600 font-black hover:text-blue-800 disabled:text-slate-300 leading-none">+</button>
+          </form>
+        </section>
+
+        <section className="px-4 py-3 flex flex-col gap-1.5">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest" title="Names and terms kept exactly as written in every language">
+            Do not translate
+          </span>
+          {glossary.doNotTranslate.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {glossary.doNotTranslate.map(entry => (
+                <span key={entry} className="px-1.5 py-0.5 text-[10px] font-bold bg-slate-100 text-slate-700 rounded flex items-center gap-1">
+                  {entry}
+                  <button
+                    onClick={() => onChange({ ...glossary, doNotTranslate: glossary.doNotTranslate.filter(t => t !== entry) })}
+                    title="Remove"
+                    className="text-slate-400 hover:text-red-600 leading-none"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <form
+            onSubmit={(e) => { e.preventDefault(); addKeep(); }}
+            className="flex items-center gap-1"
+          >
+            <input value={newKeep} onChange={(e) => setNewKeep(e.target.value)} placeholder="Product or person name" className={inputClass} />
+            <button type="submit" disabled={!newKeep.trim()} className="w-5 text-blue-600 font-black hover:text-blue-800 disabled:text-slate-300 leading-none">+</button>
+          </form>
+        </section>
+      </div>
+    </aside>
+  );
+};
+
+export default GlossaryPanel;
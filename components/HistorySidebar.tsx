@@ -0,0 +1,125 @@
+
+import React, { useState } from 'react';
+import { SessionSummary } from '../types';
+import { StorageUsage } from '../services/sessionStore';
+
+interface HistorySidebarProps {
+  sessions: SessionSummary[];
+  currentId: string;
+  usage: StorageUsage | null;
+  notice: string | null;
+  busy: boolean; // Sessions cannot be switched while a pane is transcribing
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCleanup: () => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  sessions, currentId, usage, notice, busy, onOpen, onRename, onDuplicate, onDelete, onCleanup, onClose,
+}) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const commit = () => {
+    if (editing && draft.trim()) onRename(editing, draft.trim());
+    setEditing(null);
+  };
+
+  const usedShare = usage && usage.quota > 0 ? usage.usage / usage.quota : 0;
+
+  return (
+    <aside className="w-full md:w-80 max-h-[40vh] md:max-h-none flex-shrink-0 bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col min-h-0 z-20">
+      <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+        <h2 className="text-xs font-black text-slate-800 uppercase tracking-widest">History</h2>
+        <button onClick={onClose} title="Close history" className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded text-base leading-none">
+          ×
+        </button>
+      </div>
+
+      {usage && (
+        <div className="px-4 py-2 border-b border-slate-100 flex flex-col gap-1">
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-300 ${usedShare > 0.8 ? 'bg-red-500' : usedShare > 0.6 ? 'bg-amber-500' : 'bg-blue-500'}`}
+              style={{ width: `${Math.min(100, Math.max(1, usedShare * 100))}%` }}
+            ></div>
+          </div>
+          <div className="flex items-center justify-between text-[9px] font-bold text-slate-500">
+            <span title="Bytes held by saved sessions / total used by this site / browser quota">
+              {formatBytes(usage.sessionBytes)} in sessions · {formatBytes(usage.usage)}{usage.quota > 0 && ` of ${formatBytes(usage.quota)}`}
+            </span>
+            <button onClick={onCleanup} title="Delete the oldest sessions if storage is nearly full" className="text-slate-500 hover:text-red-600 underline">
+              Clean up
+            </button>
+          </div>
+          {!usage.persisted && (
+            <span className="text-[9px] text-slate-400">Storage is best-effort; the browser may evict it under pressure.</span>
+          )}
+        </div>
+      )}
+
+      {notice && (
+        <div className="px-4 py-2 text-[10px] font-bold text-amber-700 bg-amber-50 border-b border-amber-100">{notice}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto min-h-0">
+        {sessions.length === 0 ? (
+          <p className="p-6 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No saved sessions</p>
+        ) : sessions.map(session => {
+          const isCurrent = session.id === currentId;
+          return (
+            <div key={session.id} className={`px-4 py-2.5 border-b border-slate-100 group ${isCurrent ? 'bg-blue-50/60' : 'hover:bg-slate-50'}`}>
+              {editing === session.id ? (
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onBlur={commit}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commit();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  className="w-full px-1.5 py-0.5 text-xs font-bold border border-blue-300 rounded outline-none"
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onOpen(session.id)}
+                  disabled={isCurrent || busy}
+                  className="w-full text-left text-xs font-bold text-slate-800 truncate disabled:cursor-default"
+                  title={session.name}
+                >
+                  {session.name}
+                  {isCurrent && <span className="ml-1.5 text-[9px] font-black text-blue-600 uppercase">Open</span>}
+                </button>
+              )}
+              <div className="text-[9px] font-medium text-slate-400 truncate">
+                {formatDate(session.updatedAt)} · {session.paneCount} panes · {session.segmentCount} segments · {formatBytes(session.bytes)}
+              </div>
+              <div className="mt-1 flex items-center gap-2 text-[9px] font-bold text-slate-500">
+                <button onClick={() => { setEditing(session.id); setDraft(session.name); }} className="hover:text-slate-900">Rename</button>
+                <button onClick={() => onDuplicate(session.id)} className="hover:text-slate-900">Duplicate</button>
+                <button onClick={() => onDelete(session.id)} className="hover:text-red-600">Delete</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default HistorySidebar;
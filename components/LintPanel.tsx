@@ -0,0 +1,96 @@
+
+import React, { useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { LINT_FIXES, LINT_RULES, LINT_TARGETS, LintIssue, LintLevel, LintRuleId } from '../utils/subtitleLint';
+
+interface LintPanelProps {
+  segments: TranscriptionSegment[];
+  issues: LintIssue[];
+  targetKey: string;
+  levels: Record<LintRuleId, LintLevel>;
+  onTargetChange: (key: string) => void;
+  onLevelChange: (rule: LintRuleId, level: LintLevel) => void;
+  onSelect: (startTime: string) => void;
+  onFix: (issue: LintIssue) => void;
+  disabled?: boolean; // Hides the fixes while the pane is streaming or translating
+}
+
+// Clicking a rule chip steps through these
+const NEXT_LEVEL: Record<LintLevel, LintLevel> = { error: 'warning', warning: 'off', off: 'error' };
+
+const LEVEL_CHIP: Record<LintLevel, string> = {
+  error: 'bg-red-50 text-red-600 border-red-100',
+  warning: 'bg-amber-50 text-amber-700 border-amber-100',
+  off: 'bg-white text-slate-300 border-slate-200 line-through',
+};
+
+const LintPanel: React.FC<LintPanelProps> = ({ segments, issues, targetKey, levels, onTargetChange, onLevelChange, onSelect, onFix, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div className={`mt-1.5 px-2 py-1 rounded border text-[10px] font-bold ${
+      errors > 0 ? 'bg-red-50 border-red-100 text-red-700' : warnings > 0 ? 'bg-amber-50 border-amber-100 text-amber-700' : 'bg-green-50 border-green-100 text-green-700'
+    }`}>
+      <div className="flex items-center gap-2">
+        <select
+          value={targetKey}
+          onChange={(e) => onTargetChange(e.target.value)}
+          title="Delivery target whose subtitle rules are checked"
+          className="text-[9px] font-black uppercase border border-slate-200 rounded py-0.5 px-1 bg-white text-slate-600 outline-none flex-shrink-0"
+        >
+          {Object.entries(LINT_TARGETS).map(([key, target]) => <option key={key} value={key}>{target.label}</option>)}
+        </select>
+        <button onClick={() => setOpen(prev => !prev)} className="flex-1 flex items-center justify-between gap-2 text-left">
+          <span>
+            {issues.length === 0
+              ? 'Subtitles pass every rule'
+              : `${errors} error${errors === 1 ? '' : 's'} · ${warnings} warning${warnings === 1 ? '' : 's'}`}
+          </span>
+          <span className="opacity-50">{open ? '▲' : '▼'}</span>
+        </button>
+      </div>
+      {open && (
+        <>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {(Object.keys(LINT_RULES) as LintRuleId[]).map(rule => (
+              <button
+                key={rule}
+                onClick={() => onLevelChange(rule, NEXT_LEVEL[levels[rule]])}
+                title={`${LINT_RULES[rule]}: ${levels[rule]} (click to change)`}
+                className={`px-1.5 py-0.5 text-[9px] font-bold border rounded ${LEVEL_CHIP[levels[rule]]}`}
+              >
+                {LINT_RULES[rule]}
+              </button>
+            ))}
+          </div>
+          {issues.length > 0 && (
+            <ul className="mt-1 max-h-40 overflow-y-auto flex flex-col gap-0.5 font-medium">
+              {issues.map((issue, i) => (
+                <li key={i} className="flex items-center gap-1.5">
+                  <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${issue.severity === 'error' ? 'bg-red-500' : 'bg-amber-400'}`}></span>
+                  <button onClick={() => onSelect(segments[issue.index].startTime)} className="flex-1 min-w-0 text-left hover:underline truncate">
+                    <span className="font-mono">{segments[issue.index].startTime}</span>{' '}
+                    <span className="uppercase opacity-60">{LINT_RULES[issue.rule]}</span>{' '}
+                    {issue.message}
+                  </button>
+                  {issue.fix && !disabled && (
+                    <button
+                      onClick={() => onFix(issue)}
+                      className="px-1.5 py-0.5 text-[9px] font-black border border-slate-200 rounded bg-white text-slate-600 hover:bg-slate-50 whitespace-nowrap flex-shrink-0"
+                    >
+                      {LINT_FIXES[issue.fix]}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LintPanel;
@@ -0,0 +1,121 @@
+
+import React, { useState } from 'react';
+import { DEFAULT_HOTKEYS, PLAYBACK_ACTIONS, PLAYBACK_RATES, PlaybackAction, PlaybackSettings, formatHotkey, hotkeyFromEvent } from '../utils/playback';
+
+/** Loop bounds in seconds; B is null while only A has been set. */
+export interface AbLoop {
+  a: number;
+  b: number | null;
+}
+
+interface PlaybackControlsProps {
+  settings: PlaybackSettings;
+  segmentLoop: boolean;
+  abLoop: AbLoop | null;
+  onChange: (patch: Partial<PlaybackSettings>) => void;
+  onToggleSegmentLoop: () => void;
+  onAbLoop: () => void; // Sets A, then B, then clears
+}
+
+const REWIND_OPTIONS = [0, 1, 2, 3, 5];
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ settings, segmentLoop, abLoop, onChange, onToggleSegmentLoop, onAbLoop }) => {
+  const [showKeys, setShowKeys] = useState(false);
+  const [capturing, setCapturing] = useState<PlaybackAction | null>(null);
+
+  const handleCapture = (e: React.KeyboardEvent, action: PlaybackAction) => {
+    // Keeps the key away from the global hotkeys while it is being assigned
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') return setCapturing(null);
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      onChange({ hotkeys: { ...settings.hotkeys, [action]: '' } });
+      return setCapturing(null);
+    }
+    const combo = hotkeyFromEvent(e.nativeEvent);
+    if (!combo) return;
+    // A combo belongs to one action; whatever had it before is unbound
+    const hotkeys = Object.fromEntries(Object.entries(settings.hotkeys).map(([a, c]) => [a, c === combo ? '' : c])) as Record<PlaybackAction, string>;
+    onChange({ hotkeys: { ...hotkeys, [action]: combo } });
+    setCapturing(null);
+  };
+
+  const selectClass = "text-xs border border-slate-300 rounded-lg py-1 px-1.5 bg-white text-slate-700 font-semibold outline-none";
+  const toggleClass = (on: boolean) => `px-2.5 py-1 text-xs font-semibold rounded-lg border whitespace-nowrap transition-all ${
+    on ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'
+  }`;
+
+  return (
+    <div className="relative flex items-center gap-1.5 flex-wrap">
+      <select
+        value={settings.rate}
+        onChange={(e) => onChange({ rate: Number(e.target.value) })}
+        title="Playback speed"
+        className={selectClass}
+      >
+        {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+      </select>
+      <label title="Keep voices at their normal pitch when slowed down or sped up" className="flex items-center gap-1 text-[10px] font-bold text-slate-500 cursor-pointer select-none">
+        <input type="checkbox" checked={settings.preservePitch} onChange={(e) => onChange({ preservePitch: e.target.checked })} className="accent-blue-600" />
+        Pitch
+      </label>
+      <button onClick={onToggleSegmentLoop} title={`Repeat the current segment (${formatHotkey(settings.hotkeys.loopSegment)})`} className={toggleClass(segmentLoop)}>
+        Loop
+      </button>
+      <button onClick={onAbLoop} title={`Set A, then B, then clear (${formatHotkey(settings.hotkeys.abLoop)})`} className={`${toggleClass(!!abLoop)} font-mono`}>
+        {!abLoop ? 'A–B' : abLoop.b === null ? `A ${abLoop.a.toFixed(1)}s…` : `${abLoop.a.toFixed(1)}–${abLoop.b.toFixed(1)}s`}
+      </button>
+      <select
+        value={settings.rewindOnResume}
+        onChange={(e) => onChange({ rewindOnResume: Number(e.target.value) })}
+        title="Step back this far whenever playback resumes after a pause"
+        className={selectClass}
+      >
+        {REWIND_OPTIONS.map(s => <option key={s} value={s}>{s === 0 ? 'No rewind' : `Rewind ${s}s`}</option>)}
+      </select>
+      <button onClick={() => setShowKeys(prev => !prev)} title="Keyboard shortcuts" className={toggleClass(showKeys)}>
+        Keys
+      </button>
+
+      {showKeys && (
+        <div className="absolute right-0 top-full mt-1 z-30 w-72 p-3 bg-white border border-slate-200 rounded-xl shadow-xl flex flex-col gap-1.5 text-[10px] font-bold text-slate-500">
+          <p className="font-medium">Click a key, then press the new combination (Backspace unbinds, Esc cancels). Shortcuts without Ctrl, Alt or Meta are ignored while typing.</p>
+          {(Object.keys(PLAYBACK_ACTIONS) as PlaybackAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between gap-2">
+              <span>{PLAYBACK_ACTIONS[action]}</span>
+              <button
+                onClick={() => setCapturing(action)}
+                onKeyDown={(e) => capturing === action && handleCapture(e, action)}
+                onBlur={() => capturing === action && setCapturing(null)}
+                className={`min-w-[90px] px-2 py-0.5 font-mono border rounded ${
+                  capturing === action ? 'border-blue-500 text-blue-600 bg-blue-50' : 'border-slate-200 text-slate-700 bg-slate-50 hover:bg-slate-100'
+                }`}
+              >
+                {capturing === action ? 'Press keys…' : formatHotkey(settings.hotkeys[action])}
+              </button>
+            </div>
+          ))}
+          <label className="flex items-center justify-between gap-2">
+            Skip distance (s)
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={settings.skipSeconds}
+              onChange={(e) => onChange({ skipSeconds: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-16 px-1.5 py-0.5 text-xs font-mono text-slate-900 border border-slate-300 rounded bg-white outline-none"
+            />
+          </label>
+          <button
+            onClick={() => onChange({ hotkeys: DEFAULT_HOTKEYS })}
+            className="self-end px-2 py-0.5 text-[9px] font-black border border-slate-200 rounded bg-white hover:bg-slate-50 text-slate-600"
+          >
+            Reset keys
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackControls;
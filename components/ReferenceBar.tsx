@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { ReferenceTranscript } from '../types';
+import { NormalizationOptions } from '../utils/scoring';
+
+interface ReferenceBarProps {
+  reference: ReferenceTranscript;
+  normalization: NormalizationOptions;
+  onNormalizationChange: (options: NormalizationOptions) => void;
+  onRemove: () => void;
+}
+
+const OPTION_LABELS: { key: keyof NormalizationOptions; label: string; title: string }[] = [
+  { key: 'lowercase', label: 'Ignore case', title: 'Compare words case-insensitively' },
+  { key: 'stripPunctuation', label: 'Ignore punctuation', title: 'Drop punctuation before comparing' },
+  { key: 'normalizeNumbers', label: 'Spell numbers', title: 'Treat "3" and "three" as the same word' },
+];
+
+const ReferenceBar: React.FC<ReferenceBarProps> = ({ reference, normalization, onNormalizationChange, onRemove }) => {
+  const wordCount = reference.text.split(/\s+/).filter(Boolean).length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 md:gap-3 w-full">
+      <span className="text-[10px] md:text-xs font-bold text-emerald-700 truncate max-w-full md:max-w-xs bg-emerald-50 px-2 py-1 rounded" title={reference.fileName}>
+        Reference: {reference.fileName} ({wordCount} words)
+      </span>
+      {OPTION_LABELS.map(({ key, label, title }) => (
+        <label key={key} title={title} className="flex items-center gap-1.5 text-[10px] md:text-xs font-semibold text-slate-600 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={normalization[key]}
+            onChange={(e) => onNormalizationChange({ ...normalization, [key]: e.target.checked })}
+            className="accent-emerald-600"
+          />
+          {label}
+        </label>
+      ))}
+      <button
+        onClick={onRemove}
+        className="px-2 py-0.5 text-[10px] font-bold text-slate-500 hover:text-red-600 rounded border border-slate-200 hover:bg-red-50"
+      >
+        Remove
+      </button>
+    </div>
+  );
+};
+
+export default ReferenceBar;
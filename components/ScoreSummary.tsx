@@ -0,0 +1,30 @@
+
+import React from 'react';
+import { TranscriptScore } from '../utils/scoring';
+
+interface ScoreSummaryProps {
+  score: TranscriptScore;
+}
+
+const formatRate = (rate: number): string => `${(rate * 100).toFixed(1)}%`;
+
+const rateColor = (rate: number): string => {
+  if (rate <= 0.1) return 'bg-green-100 text-green-700';
+  if (rate <= 0.25) return 'bg-amber-100 text-amber-700';
+  return 'bg-red-100 text-red-600';
+};
+
+const ScoreSummary: React.FC<ScoreSummaryProps> = ({ score }) => {
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-0.5 no-scrollbar text-[9px] font-black whitespace-nowrap">
+      <span className="text-[8px] font-bold text-slate-400 uppercase min-w-[32px]">Score:</span>
+      <span className={`px-2 py-0.5 rounded-full ${rateColor(score.wer)}`}>WER {formatRate(score.wer)}</span>
+      <span className={`px-2 py-0.5 rounded-full ${rateColor(score.cer)}`}>CER {formatRate(score.cer)}</span>
+      <span className="text-slate-500 font-mono" title="Substitutions / deletions / insertions against the reference word count">
+        S{score.substitutions} D{score.deletions} I{score.insertions} / {score.refWords}w
+      </span>
+    </div>
+  );
+};
+
+export default ScoreSummary;
@@ -0,0 +1,151 @@
+
+import React, { useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { ReplaceChange, SearchOptions, previewReplace } from '../utils/search';
+
+export interface SearchPaneInfo {
+  id: string;
+  label: string;
+  segments: TranscriptionSegment[];
+  matchCount: number;
+  editable: boolean; // False while the pane is streaming or translating
+}
+
+interface SearchPanelProps {
+  options: SearchOptions;
+  pattern: RegExp | null;
+  error?: string;
+  scope: string; // 'all' or a pane id
+  panes: SearchPaneInfo[];
+  total: number;
+  cursor: number; // Position of the selected match, -1 before the first step
+  onOptionsChange: (patch: Partial<SearchOptions>) => void;
+  onScopeChange: (scope: string) => void;
+  onStep: (direction: 1 | -1) => void;
+  onReplace: (changes: Record<string, ReplaceChange[]>) => void; // Keyed by pane id
+  onClose: () => void;
+}
+
+// Longer previews are cut short; the replace still covers every change
+const MAX_PREVIEW = 100;
+
+const SearchPanel: React.FC<SearchPanelProps> = ({
+  options, pattern, error, scope, panes, total, cursor, onOptionsChange, onScopeChange, onStep, onReplace, onClose,
+}) => {
+  const [replacement, setReplacement] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+
+  const targets = panes.filter(p => p.editable && (scope === 'all' || p.id === scope));
+  const changes: Record<string, ReplaceChange[]> = pattern && showPreview
+    ? Object.fromEntries(targets.map(p => [p.id, previewReplace(p.segments, pattern, replacement, options)]))
+    : {};
+  const changeCount = Object.values(changes).reduce((sum, list) => sum + list.length, 0);
+  const preview = targets.flatMap(p => (changes[p.id] ?? []).map(change => ({ pane: p, change }))).slice(0, MAX_PREVIEW);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') onStep(e.shiftKey ? -1 : 1);
+    if (e.key === 'Escape') onClose();
+  };
+
+  const toggleClass = (on: boolean) => `px-1.5 py-0.5 text-[10px] font-black font-mono border rounded ${
+    on ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+  }`;
+  const inputClass = "flex-1 min-w-0 px-2 py-1.5 text-sm text-slate-900 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500";
+  const buttonClass = "px-2 py-1 text-[10px] font-black border border-slate-200 rounded bg-white hover:bg-slate-50 text-slate-600 shadow-sm whitespace-nowrap disabled:opacity-40";
+
+  return (
+    <aside className="w-full md:w-96 max-h-[40vh] md:max-h-none flex-shrink-0 bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col min-h-0 z-20">
+      <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+        <h2 className="text-xs font-black text-slate-800 uppercase tracking-widest">Find &amp; Replace</h2>
+        <button onClick={onClose} title="Close search" className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded text-base leading-none">×</button>
+      </div>
+
+      <div className="p-4 flex flex-col gap-2 border-b border-slate-100 text-[10px] font-bold text-slate-500">
+        <div className="flex items-center gap-1">
+          <input
+            value={options.query}
+            onChange={(e) => onOptionsChange({ query: e.target.value })}
+            onKeyDown={handleKeyDown}
+            placeholder={options.regex ? 'Regular expression' : 'Find'}
+            autoFocus
+            className={`${inputClass} ${error ? 'border-red-300' : ''}`}
+          />
+          <button onClick={() => onStep(-1)} disabled={total === 0} title="Previous match (Shift + Enter)" className={buttonClass}>↑</button>
+          <button onClick={() => onStep(1)} disabled={total === 0} title="Next match (Enter)" className={buttonClass}>↓</button>
+        </div>
+        <div className="flex items-center gap-1 flex-wrap">
+          <button onClick={() => onOptionsChange({ caseSensitive: !options.caseSensitive })} title="Match case" className={toggleClass(options.caseSensitive)}>Aa</button>
+          <button onClick={() => onOptionsChange({ wholeWord: !options.wholeWord })} title="Whole words only" className={toggleClass(options.wholeWord)}>W</button>
+          <button onClick={() => onOptionsChange({ regex: !options.regex })} title="Regular expression" className={toggleClass(options.regex)}>.*</button>
+          <label className="flex items-center gap-1 ml-1 cursor-pointer select-none">
+            <input type="checkbox" checked={options.translations} onChange={(e) => onOptionsChange({ translations: e.target.checked })} className="accent-blue-600" />
+            Translations
+          </label>
+          <select
+            value={scope}
+            onChange={(e) => onScopeChange(e.target.value)}
+            className="ml-auto text-[10px] font-bold border border-slate-200 rounded py-0.5 px-1 bg-white text-slate-600 outline-none max-w-[140px]"
+          >
+            <option value="all">All panes</option>
+            {panes.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </div>
+        {error ? (
+          <p className="text-red-600">{error}</p>
+        ) : options.query && (
+          <div className="flex flex-col gap-0.5">
+            <span className="text-slate-700">
+              {total === 0 ? 'No matches' : cursor >= 0 ? `${cursor + 1} of ${total} matches` : `${total} match${total === 1 ? '' : 'es'}`}
+            </span>
+            {panes.length > 1 && scope === 'all' && panes.map(p => (
+              <span key={p.id} className="font-medium">{p.label}: {p.matchCount}</span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 flex flex-col gap-2 min-h-0 flex-1 text-[10px] font-bold text-slate-500">
+        <input
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          placeholder={options.regex ? 'Replace with ($1, $& …)' : 'Replace with'}
+          className={inputClass}
+        />
+        <div className="flex items-center gap-1">
+          <button onClick={() => setShowPreview(prev => !prev)} disabled={!pattern} className={buttonClass}>
+            {showPreview ? 'Hide preview' : 'Preview'}
+          </button>
+          {showPreview && (
+            <button
+              onClick={() => { onReplace(changes); setShowPreview(false); }}
+              disabled={changeCount === 0}
+              title="Each pane it changes can undo the whole replace in one step"
+              className="ml-auto px-2 py-1 text-[10px] font-black border border-slate-900 rounded bg-slate-900 hover:bg-slate-700 text-white shadow-sm whitespace-nowrap disabled:opacity-40"
+            >
+              Replace in {changeCount} text{changeCount === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+        {showPreview && targets.length < panes.filter(p => scope === 'all' || p.id === scope).length && (
+          <p className="text-amber-600">Panes that are still transcribing or translating are skipped.</p>
+        )}
+        {showPreview && (
+          <ul className="flex-1 min-h-0 overflow-y-auto flex flex-col gap-1.5 font-medium">
+            {preview.map(({ pane, change }) => (
+              <li key={`${pane.id}-${change.index}-${change.field}`} className="p-1.5 rounded border border-slate-100 bg-slate-50">
+                <span className="block text-[9px] font-black text-slate-400">
+                  {pane.label} · {pane.segments[change.index].startTime}{change.field && ` · ${change.field}`}
+                </span>
+                <span className="block text-red-600 line-through decoration-red-300">{change.before}</span>
+                <span className="block text-green-700">{change.after}</span>
+              </li>
+            ))}
+            {changeCount > preview.length && <li className="text-slate-400">…and {changeCount - preview.length} more</li>}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default SearchPanel;
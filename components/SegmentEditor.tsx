@@ -0,0 +1,98 @@
+
+import React, { useRef, useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { deleteSegment, insertAfter, mergeWithNext, splitAtCursor, splitAtTime, updateSegment } from '../utils/segmentEditing';
+
+type Transform = (segments: TranscriptionSegment[]) => TranscriptionSegment[];
+
+interface SegmentEditorProps {
+  segment: TranscriptionSegment;
+  index: number;
+  hasNext: boolean;
+  currentTime: number; // Playhead in seconds
+  // Returns false when the edit was rejected (the reason is shown as the pane notice)
+  onApply: (transform: Transform) => boolean;
+  onInserted: (index: number) => void;
+  onClose: () => void;
+}
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ segment, index, hasNext, currentTime, onApply, onInserted, onClose }) => {
+  const [text, setText] = useState(segment.text);
+  const [startTime, setStartTime] = useState(segment.startTime);
+  const [endTime, setEndTime] = useState(segment.endTime);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+  const edit = { text, startTime, endTime };
+
+  // Every action saves the fields first, so typing and then splitting is one step
+  const apply = (transform: Transform) => {
+    if (onApply(s => transform(updateSegment(s, index, edit)))) onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onClose();
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) apply(s => s);
+  };
+
+  const inputClass = "w-28 px-1.5 py-1 text-xs font-mono font-medium text-slate-900 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500";
+  const baseButtonClass = "px-2 py-1 text-[9px] font-black border rounded shadow-sm whitespace-nowrap disabled:opacity-40";
+  const buttonClass = `${baseButtonClass} border-slate-200 bg-white hover:bg-slate-50 text-slate-600`;
+
+  return (
+    <div className="px-4 py-3 border-l-[6px] border-amber-400 bg-amber-50/40 flex flex-col gap-2" onKeyDown={handleKeyDown}>
+      <div className="flex items-center gap-2 text-[10px] font-bold text-slate-500">
+        <input value={startTime} onChange={(e) => setStartTime(e.target.value)} title="Start" className={inputClass} />
+        <span className="text-slate-300">→</span>
+        <input value={endTime} onChange={(e) => setEndTime(e.target.value)} title="End" className={inputClass} />
+        {segment.speaker && <span className="ml-1 truncate">{segment.speaker}</span>}
+      </div>
+      <textarea
+        ref={textRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        autoFocus
+        rows={Math.min(6, Math.max(2, text.split('\n').length))}
+        className="w-full px-2 py-1.5 text-base font-medium text-slate-900 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+      />
+      <div className="flex items-center gap-1 flex-wrap">
+        <button onClick={() => apply(s => s)} title="Save (Ctrl + Enter)" className={`${baseButtonClass} border-slate-900 bg-slate-900 hover:bg-slate-700 text-white`}>
+          Save
+        </button>
+        <button onClick={onClose} title="Discard changes (Esc)" className={buttonClass}>Cancel</button>
+        <span className="w-px h-4 bg-slate-200 mx-1"></span>
+        <button
+          onClick={() => apply(s => splitAtCursor(s, index, text, textRef.current?.selectionStart ?? text.length))}
+          title="Split where the text cursor is; the time is cut in proportion"
+          className={buttonClass}
+        >
+          Split at cursor
+        </button>
+        <button
+          onClick={() => apply(s => splitAtTime(s, index, currentTime))}
+          title="Split at the playhead; the text is cut at the nearest word"
+          className={buttonClass}
+        >
+          Split at playhead
+        </button>
+        <button onClick={() => apply(s => mergeWithNext(s, index))} disabled={!hasNext} title="Join with the next segment" className={buttonClass}>
+          Merge with next
+        </button>
+        <button
+          onClick={() => { if (onApply(s => insertAfter(updateSegment(s, index, edit), index))) onInserted(index + 1); }}
+          title="Add an empty segment after this one"
+          className={buttonClass}
+        >
+          Insert after
+        </button>
+        <button
+          onClick={() => { if (onApply(s => deleteSegment(s, index))) onClose(); }}
+          title="Remove this segment"
+          className={`${baseButtonClass} ml-auto border-slate-200 bg-white hover:bg-red-50 text-red-500`}
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentEditor;
@@ -3,17 +3,28 @@ import React, { useEffect, useRef, useState } from 'react';
 import { TranscriptionSegment } from '../types';
 import { generateSpeech } from '../services/geminiService';
 import { decodeBase64, decodeAudioData } from '../utils/audio';
+import { SpeakerColor } from '../utils/speakers';
+import { SegmentScore } from '../utils/scoring';
+import { GlossaryRule } from '../utils/glossary';
+import { TextMatch } from '../utils/search';
 
 interface SegmentItemProps {
   segment: TranscriptionSegment;
   isActive?: boolean;
   isManualSeek?: boolean;
+  speakerColor?: SpeakerColor;
+  score?: SegmentScore;
+  glossaryViolations?: GlossaryRule[];
+  languages?: string[]; // Translations to show under the original, in order
   onSelect: (startTime: string) => void;
+  onEdit?: () => void; // Shown as an Edit button when given
+  matches?: TextMatch[]; // Search matches to highlight in this segment
+  currentMatch?: TextMatch | null; // The one stepped to, drawn stronger
 }
 
-const SegmentItem: React.FC<SegmentItemProps> = ({ segment, isActive, isManualSeek, onSelect }) => {
+const SegmentItem: React.FC<SegmentItemProps> = ({ segment, isActive, isManualSeek, speakerColor, score, glossaryViolations, languages = [], onSelect, onEdit, matches, currentMatch }) => {
   const elementRef = useRef<HTMLButtonElement>(null);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [speaking, setSpeaking] = useState<string | null>(null); // Language being read aloud
   const audioContextRef = useRef<AudioContext | null>(null);
 
   useEffect(() => {
@@ -47,14 +58,32 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, isActive, isManualSe
     }
   }, [isActive, isManualSeek]);
 
-  const handleSpeak = async (e: React.MouseEvent) => {
+  const highlight = (text: string, field: string | null): React.ReactNode => {
+    const ranges = matches?.filter(m => m.field === field) ?? [];
+    if (ranges.length === 0) return text;
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    ranges.forEach((m, i) => {
+      const current = currentMatch && currentMatch.field === field && currentMatch.start === m.start;
+      parts.push(text.slice(position, m.start));
+      parts.push(
+        <mark key={i} className={`rounded-sm text-inherit ${current ? 'bg-orange-300' : 'bg-yellow-200'}`}>{text.slice(m.start, m.end)}</mark>
+      );
+      position = m.end;
+    });
+    parts.push(text.slice(position));
+    return parts;
+  };
+
+  const handleSpeak = async (e: React.MouseEvent, language: string) => {
     e.stopPropagation();
-    if (isSpeaking) return;
-    if (!segment.translatedText) return;
+    if (speaking) return;
+    const text = segment.translations?.[language];
+    if (!text) return;
 
-    setIsSpeaking(true);
+    setSpeaking(language);
     try {
-      const audioData = await generateSpeech(segment.translatedText);
+      const audioData = await generateSpeech(text);
       if (!audioData) throw new Error("No audio data");
 
       if (!audioContextRef.current) {
@@ -68,11 +97,11 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, isActive, isManualSe
       const source = ctx.createBufferSource();
       source.buffer = audioBuffer;
       source.connect(ctx.destination);
-      source.onended = () => setIsSpeaking(false);
+      source.onended = () => setSpeaking(null);
       source.start();
     } catch (error) {
       console.error("TTS error:", error);
-      setIsSpeaking(false);
+      setSpeaking(null);
     }
   };
 
@@ -96,36 +125,74 @@ const SegmentItem: React.FC<SegmentItemProps> = ({ segment, isActive, isManualSe
         }`}>
           {segment.startTime}
         </span>
+        {segment.speaker && (
+          <span className={`text-[10px] font-bold px-2 py-0.5 rounded-md flex items-center gap-1.5 ${speakerColor?.badge || 'bg-slate-100 text-slate-600'}`}>
+            <span className={`w-1.5 h-1.5 rounded-full ${speakerColor?.dot || 'bg-slate-400'}`}></span>
+            {segment.speaker}
+          </span>
+        )}
+        {score && score.wer > 0 && (
+          <span
+            title={`Reference: ${score.refText || '(nothing)'}\nS${score.substitutions} D${score.deletions} I${score.insertions}`}
+            className={`text-[10px] font-bold font-mono px-2 py-0.5 rounded-md ${score.wer > 0.25 ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-700'}`}
+          >
+            WER {(score.wer * 100).toFixed(0)}%
+          </span>
+        )}
+        {glossaryViolations && glossaryViolations.length > 0 && (
+          <span
+            title={glossaryViolations.map(rule => rule.kind === 'term' ? `"${rule.source}" → "${rule.target}"` : `Keep "${rule.source}"`).join('\n')}
+            className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-rose-50 text-rose-600"
+          >
+            Glossary
+          </span>
+        )}
+        {onEdit && (
+          <span
+            role="button"
+            onClick={(e) => { e.stopPropagation(); onEdit(); }}
+            title="Edit text and times"
+            className="ml-auto pointer-events-auto px-2 py-0.5 text-[10px] font-bold rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            Edit
+          </span>
+        )}
       </div>
       
       {/* Transcription Text - Removed font-weight change to prevent layout shift */}
       <p className={`text-lg md:text-xl leading-relaxed transition-colors duration-200 font-medium ${
         isActive ? 'text-slate-900' : 'text-slate-600'
       }`}>
-        {segment.text}
+        {highlight(segment.text, null)}
       </p>
 
-      {segment.translatedText && (
-        <div className={`mt-2 p-2.5 rounded-lg border flex items-start gap-3 transition-all ${
+      {languages.filter(language => segment.translations?.[language]).map(language => (
+        <div key={language} className={`mt-2 p-2.5 rounded-lg border flex items-start gap-3 transition-all ${
           isActive ? 'bg-white border-indigo-200 shadow-sm' : 'bg-slate-50 border-slate-100'
         }`}>
-          <p className={`text-base italic flex-1 leading-relaxed ${
-            isActive ? 'text-indigo-800 font-medium' : 'text-slate-500'
-          }`}>
-            {segment.translatedText}
-          </p>
+          <div className="flex-1 min-w-0">
+            {languages.length > 1 && (
+              <span className="block text-[9px] font-black uppercase tracking-widest text-indigo-400">{language}</span>
+            )}
+            <p className={`text-base italic leading-relaxed ${
+              isActive ? 'text-indigo-800 font-medium' : 'text-slate-500'
+            }`}>
+              {highlight(segment.translations?.[language] ?? '', language)}
+            </p>
+          </div>
           <button 
             type="button"
-            onClick={handleSpeak}
-            disabled={isSpeaking}
+            onClick={(e) => handleSpeak(e, language)}
+            disabled={speaking !== null}
+            title={`Read the ${language} translation aloud`}
             className={`p-1.5 rounded-md transition-all flex-shrink-0 ${
-              isSpeaking ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'
+              speaking === language ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'
             }`}
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M11 5L6 9H2v6h4l5 4V5z"/><path d="M15.54 8.46a5 5 0 0 1 0 7.07"/></svg>
           </button>
         </div>
-      )}
+      ))}
     </button>
   );
 };
@@ -0,0 +1,56 @@
+
+import React, { useState } from 'react';
+import { getSpeakerColor } from '../utils/speakers';
+
+interface SpeakerLegendProps {
+  speakers: string[];
+  onRename: (from: string, to: string) => void;
+  disabled?: boolean;
+}
+
+const SpeakerLegend: React.FC<SpeakerLegendProps> = ({ speakers, onRename, disabled }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const commit = () => {
+    if (editing) onRename(editing, draft);
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1.5 overflow-x-auto pb-0.5 no-scrollbar">
+      <span className="text-[8px] font-bold text-slate-400 uppercase min-w-[32px]">Who:</span>
+      {speakers.map(speaker => {
+        const color = getSpeakerColor(speaker, speakers);
+        return editing === speaker ? (
+          <input
+            key={speaker}
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commit();
+              if (e.key === 'Escape') setEditing(null);
+            }}
+            className="px-1.5 py-0.5 text-[9px] font-bold border border-blue-300 rounded outline-none w-24"
+          />
+        ) : (
+          <button
+            key={speaker}
+            type="button"
+            onClick={() => { setEditing(speaker); setDraft(speaker); }}
+            disabled={disabled}
+            title={disabled ? undefined : "Rename across the whole transcript"}
+            className={`px-1.5 py-0.5 text-[9px] font-bold rounded flex items-center gap-1 whitespace-nowrap hover:ring-1 hover:ring-slate-300 disabled:hover:ring-0 ${color.badge}`}
+          >
+            <span className={`w-1.5 h-1.5 rounded-full ${color.dot}`}></span>
+            {speaker}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SpeakerLegend;
@@ -0,0 +1,103 @@
+
+import React, { useMemo, useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { secondsToTimestamp } from '../services/geminiService';
+import { SpeechRegion, checkSpeechCoverage, snapToSpeech } from '../utils/vad';
+
+interface SpeechPanelProps {
+  segments: TranscriptionSegment[];
+  speech: SpeechRegion[] | null; // null until the audio has been analysed
+  analyzing: boolean;
+  disabled?: boolean;
+  readOnly?: boolean; // Detection still runs, but snapping waits while the pane is streaming or translating
+  onAnalyze: () => void;
+  onSelect: (startTime: string) => void;
+  // Same contract as the timing tools: the caller clamps and re-checks the result
+  onApply: (transform: (segments: TranscriptionSegment[]) => TranscriptionSegment[], label: string) => void;
+}
+
+const SpeechPanel: React.FC<SpeechPanelProps> = ({ segments, speech, analyzing, disabled, readOnly, onAnalyze, onSelect, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [tolerance, setTolerance] = useState('0.3');
+  const report = useMemo(() => speech ? checkSpeechCoverage(segments, speech) : null, [segments, speech]);
+  const toleranceSeconds = Number(tolerance);
+
+  if (!speech || !report) {
+    return (
+      <div className="mt-1.5 px-2 py-1 rounded border text-[10px] font-bold bg-slate-50 border-slate-200 text-slate-500 flex items-center justify-between gap-2">
+        <span>Compare timestamps with the speech in the audio</span>
+        <button
+          onClick={onAnalyze}
+          disabled={disabled || analyzing}
+          className="px-1.5 py-0.5 text-[9px] font-black border border-slate-200 rounded bg-white text-slate-600 hover:bg-slate-50 whitespace-nowrap disabled:opacity-40"
+        >
+          {analyzing ? 'Detecting…' : 'Detect speech'}
+        </button>
+      </div>
+    );
+  }
+
+  const { silent, uncovered } = report;
+  const problems = silent.length + uncovered.length;
+
+  return (
+    <div className={`mt-1.5 px-2 py-1 rounded border text-[10px] font-bold ${
+      problems > 0 ? 'bg-amber-50 border-amber-100 text-amber-700' : 'bg-green-50 border-green-100 text-green-700'
+    }`}>
+      <button onClick={() => setOpen(prev => !prev)} className="w-full flex items-center justify-between gap-2 text-left">
+        <span>
+          {problems === 0
+            ? 'Every segment lines up with speech'
+            : `${silent.length} in silence · ${uncovered.length} uncovered speech`}
+        </span>
+        <span className="opacity-50">{open ? '▲' : '▼'}</span>
+      </button>
+      {open && (
+        <>
+          <div className="mt-1 flex items-center gap-1">
+            <span title="How far a start or end may move to reach a speech onset or offset">Tolerance (s)</span>
+            <input
+              type="number"
+              min={0.05}
+              step={0.05}
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              className="w-14 px-1 py-0.5 text-[10px] font-mono text-slate-900 border border-slate-300 rounded bg-white outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={() => onApply(s => snapToSpeech(s, speech, toleranceSeconds), 'Speech snap')}
+              disabled={disabled || readOnly || !(toleranceSeconds > 0)}
+              className="px-1.5 py-0.5 text-[9px] font-black border border-slate-200 rounded bg-white text-slate-600 hover:bg-slate-50 whitespace-nowrap disabled:opacity-40"
+            >
+              Snap to speech
+            </button>
+          </div>
+          {problems > 0 && (
+            <ul className="mt-1 max-h-40 overflow-y-auto flex flex-col gap-0.5 font-medium">
+              {silent.map(index => (
+                <li key={`s${index}`}>
+                  <button onClick={() => onSelect(segments[index].startTime)} className="w-full text-left hover:underline truncate">
+                    <span className="font-mono">{segments[index].startTime}</span>{' '}
+                    <span className="uppercase opacity-60">Silence</span>{' '}
+                    {segments[index].text}
+                  </button>
+                </li>
+              ))}
+              {uncovered.map(region => (
+                <li key={`u${region.start}`}>
+                  <button onClick={() => onSelect(secondsToTimestamp(region.start))} className="w-full text-left hover:underline truncate">
+                    <span className="font-mono">{secondsToTimestamp(region.start)}</span>{' '}
+                    <span className="uppercase opacity-60">Uncovered</span>{' '}
+                    {(region.end - region.start).toFixed(1)} s of speech with no segment
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SpeechPanel;
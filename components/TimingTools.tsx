@@ -0,0 +1,150 @@
+
+import React, { useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { secondsToTimestamp, timestampToSeconds } from '../services/geminiService';
+import { FRAME_RATES, convertFrameRate, correctDrift, shiftSegments, snapToFrames } from '../utils/timing';
+
+interface TimingToolsProps {
+  segments: TranscriptionSegment[];
+  activeIndex: number;
+  currentTime: number; // Playhead in seconds
+  disabled?: boolean;
+  // The result is clamped to the audio and re-checked for monotonic timing by the caller
+  onApply: (transform: (segments: TranscriptionSegment[]) => TranscriptionSegment[], label: string) => void;
+}
+
+interface AnchorInput {
+  transcript: string;
+  audio: string;
+}
+
+const EMPTY_ANCHOR: AnchorInput = { transcript: '', audio: '' };
+
+const fpsOf = (label: string) => FRAME_RATES.find(r => r.label === label)?.fps ?? 25;
+
+const TimingTools: React.FC<TimingToolsProps> = ({ segments, activeIndex, currentTime, disabled, onApply }) => {
+  const [offset, setOffset] = useState('');
+  const [anchors, setAnchors] = useState<[AnchorInput, AnchorInput]>([EMPTY_ANCHOR, EMPTY_ANCHOR]);
+  const [fromFps, setFromFps] = useState('23.976');
+  const [toFps, setToFps] = useState('25');
+  const [snapFps, setSnapFps] = useState('25');
+
+  const activeSegment = segments[activeIndex];
+  const offsetSeconds = Number(offset);
+  const anchorsReady = anchors.every(a => a.transcript.trim() && a.audio.trim());
+
+  const setAnchor = (slot: 0 | 1, patch: Partial<AnchorInput>) =>
+    setAnchors(prev => slot === 0 ? [{ ...prev[0], ...patch }, prev[1]] : [prev[0], { ...prev[1], ...patch }]);
+
+  const handleDrift = () => {
+    const [a, b] = anchors.map(x => ({ transcript: timestampToSeconds(x.transcript), audio: timestampToSeconds(x.audio) }));
+    onApply(s => correctDrift(s, a, b), 'Drift correction');
+  };
+
+  const inputClass = "min-w-0 w-full px-1.5 py-1 text-xs font-mono font-medium text-slate-900 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500";
+  const buttonClass = "px-2 py-1 text-[9px] font-black border border-slate-200 rounded bg-white hover:bg-slate-50 text-slate-600 shadow-sm whitespace-nowrap disabled:opacity-40";
+  const pickClass = "px-1 text-[11px] text-slate-400 hover:text-blue-600 disabled:opacity-30";
+
+  return (
+    <div className="flex flex-col gap-2 py-2 mb-1 border-y border-slate-200/70 text-[10px] font-bold text-slate-500">
+      <div className="flex items-end gap-2">
+        <label className="flex flex-col gap-0.5 flex-1">
+          Offset (seconds)
+          <input
+            type="number"
+            step={0.1}
+            value={offset}
+            placeholder="e.g. -1.25"
+            onChange={(e) => setOffset(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <button
+          onClick={() => onApply(s => shiftSegments(s, offsetSeconds), 'Offset')}
+          disabled={disabled || !offset || !Number.isFinite(offsetSeconds) || offsetSeconds === 0}
+          className={buttonClass}
+        >
+          Shift
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span title="Two points where you know both the transcript time and the true time in the audio">Drift anchors (transcript → audio)</span>
+        {([0, 1] as const).map(slot => (
+          <div key={slot} className="flex items-center gap-1">
+            <span className="w-3 text-slate-400">{slot === 0 ? 'A' : 'B'}</span>
+            <input
+              value={anchors[slot].transcript}
+              onChange={(e) => setAnchor(slot, { transcript: e.target.value })}
+              placeholder="00:00:00.000"
+              className={inputClass}
+            />
+            <button
+              onClick={() => setAnchor(slot, { transcript: activeSegment.startTime })}
+              disabled={!activeSegment}
+              title="Use the active segment's start"
+              className={pickClass}
+            >
+              ◎
+            </button>
+            <span className="text-slate-300">→</span>
+            <input
+              value={anchors[slot].audio}
+              onChange={(e) => setAnchor(slot, { audio: e.target.value })}
+              placeholder="00:00:00.000"
+              className={inputClass}
+            />
+            <button
+              onClick={() => setAnchor(slot, { audio: secondsToTimestamp(currentTime) })}
+              title="Use the playhead"
+              className={pickClass}
+            >
+              ▶
+            </button>
+          </div>
+        ))}
+        <button onClick={handleDrift} disabled={disabled || !anchorsReady} className={`${buttonClass} self-start`}>
+          Correct drift
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1 flex-wrap">
+        <span>Frame rate</span>
+        <select value={fromFps} onChange={(e) => setFromFps(e.target.value)} className="text-xs border border-slate-300 rounded-lg py-0.5 px-1 bg-white text-slate-900 outline-none">
+          {FRAME_RATES.map(r => <option key={r.label} value={r.label}>{r.label}</option>)}
+        </select>
+        <span className="text-slate-300">→</span>
+        <select value={toFps} onChange={(e) => setToFps(e.target.value)} className="text-xs border border-slate-300 rounded-lg py-0.5 px-1 bg-white text-slate-900 outline-none">
+          {FRAME_RATES.map(r => <option key={r.label} value={r.label}>{r.label}</option>)}
+        </select>
+        <button
+          onClick={() => onApply(s => convertFrameRate(s, fpsOf(fromFps), fpsOf(toFps)), `${fromFps} → ${toFps} fps`)}
+          disabled={disabled || fromFps === toFps}
+          className={buttonClass}
+        >
+          Convert
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1 flex-wrap">
+        <span>Snap to</span>
+        <select value={snapFps} onChange={(e) => setSnapFps(e.target.value)} className="text-xs border border-slate-300 rounded-lg py-0.5 px-1 bg-white text-slate-900 outline-none">
+          {FRAME_RATES.map(r => <option key={r.label} value={r.label}>{r.label} fps</option>)}
+        </select>
+        <button onClick={() => onApply(s => snapToFrames(s, fpsOf(snapFps)), 'Frame snap')} disabled={disabled} className={buttonClass}>
+          Snap
+        </button>
+        <button
+          onClick={() => onApply(s => s, 'Clamp')}
+          disabled={disabled}
+          title="Cut segments back to the length of the loaded audio"
+          className={`${buttonClass} ml-auto`}
+        >
+          Clamp to audio
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimingTools;
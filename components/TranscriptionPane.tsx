@@ -0,0 +1,548 @@
+
+import React, { useMemo, useState } from 'react';
+import { PaneConfig, TranscriptionResult, TranscriptionSegment } from '../types';
+import SegmentItem from './SegmentItem';
+import ChunkProgress from './ChunkProgress';
+import SpeakerLegend from './SpeakerLegend';
+import ScoreSummary from './ScoreSummary';
+import LintPanel from './LintPanel';
+import TimingTools from './TimingTools';
+import SpeechPanel from './SpeechPanel';
+import SegmentEditor from './SegmentEditor';
+import { listSpeakers, getSpeakerColor } from '../utils/speakers';
+import { TranscriptScore } from '../utils/scoring';
+import { GlossaryIssue, GlossaryRule } from '../utils/glossary';
+import { listTranslationLanguages, showLanguage, shownTranslations } from '../utils/translations';
+import { LINT_TARGETS, LintIssue, LintLevel, LintRuleId, lintSegments } from '../utils/subtitleLint';
+import { SpeechRegion } from '../utils/vad';
+import { TextMatch } from '../utils/search';
+
+export interface PaneAccent {
+  dot: string;
+  header: string;
+  spinner: string;
+  region: string; // Segment regions on the waveform timeline
+}
+
+// Full class strings so Tailwind's CDN build picks them up; panes cycle through these
+export const PANE_ACCENTS: PaneAccent[] = [
+  { dot: 'bg-blue-500', header: 'bg-slate-50/50', spinner: 'border-blue-100 border-t-blue-500', region: 'bg-blue-500/20 border-blue-400 text-blue-900' },
+  { dot: 'bg-indigo-500', header: 'bg-indigo-50/30', spinner: 'border-indigo-100 border-t-indigo-500', region: 'bg-indigo-500/20 border-indigo-400 text-indigo-900' },
+  { dot: 'bg-emerald-500', header: 'bg-emerald-50/30', spinner: 'border-emerald-100 border-t-emerald-500', region: 'bg-emerald-500/20 border-emerald-400 text-emerald-900' },
+  { dot: 'bg-amber-500', header: 'bg-amber-50/30', spinner: 'border-amber-100 border-t-amber-500', region: 'bg-amber-500/20 border-amber-400 text-amber-900' },
+  { dot: 'bg-rose-500', header: 'bg-rose-50/30', spinner: 'border-rose-100 border-t-rose-500', region: 'bg-rose-500/20 border-rose-400 text-rose-900' },
+  { dot: 'bg-cyan-500', header: 'bg-cyan-50/30', spinner: 'border-cyan-100 border-t-cyan-500', region: 'bg-cyan-500/20 border-cyan-400 text-cyan-900' },
+];
+
+// Suggestions only; any model id the backend accepts can be typed in
+export const KNOWN_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemini-2.5-pro',
+  'gemini-3-flash-preview',
+  'gemini-3-pro-preview',
+];
+
+const EXPORT_FORMATS = ['TXT', 'SRT', 'VTT', 'ASS', 'LRC', 'TTML', 'JSON'];
+// Formats that can carry two languages at once
+const BILINGUAL_FORMATS = ['SRT', 'VTT', 'ASS', 'TTML'];
+// Select value for "no second line"; '' is the original transcript
+const NO_SECOND_LINE = '-';
+
+interface TranscriptionPaneProps {
+  pane: PaneConfig;
+  result: TranscriptionResult;
+  accent: PaneAccent;
+  activeIndex: number;
+  currentTime: number;
+  isManualSeek: boolean;
+  score: TranscriptScore | null;
+  glossaryIssues: GlossaryIssue[];
+  lintTarget: string; // Key into LINT_TARGETS
+  lintLevels: Record<LintRuleId, LintLevel>;
+  speech: SpeechRegion[] | null; // Detected speech in the audio, shared by every pane
+  speechAnalyzing: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  searchMatches: TextMatch[]; // This pane's matches for the open search
+  currentMatch: TextMatch | null;
+  canRemove: boolean;
+  disabled: boolean;
+  onConfigChange: (patch: Partial<PaneConfig>) => void;
+  onRemove: () => void;
+  onRun: () => void;
+  onStop: () => void;
+  onImport: () => void;
+  // null exports the original transcript; a second language (or null) makes a bilingual export, shown below the first
+  onDownload: (format: string, language: string | null, secondLanguage?: string | null) => void;
+  onRenameSpeaker: (from: string, to: string) => void;
+  onRetryChunk: (index: number) => void;
+  onSelectSegment: (startTime: string) => void;
+  onDismissNotice: () => void;
+  onLintTargetChange: (key: string) => void;
+  onLintLevelChange: (rule: LintRuleId, level: LintLevel) => void;
+  onLintFix: (issue: LintIssue) => void;
+  onRetime: (transform: (segments: TranscriptionSegment[]) => TranscriptionSegment[], label: string) => void;
+  onAnalyzeSpeech: () => void;
+  // Returns false when the edit was rejected; the reason is set as the notice
+  onEditSegments: (transform: (segments: TranscriptionSegment[]) => TranscriptionSegment[]) => boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const TranscriptionPane: React.FC<TranscriptionPaneProps> = ({
+  pane, result, accent, activeIndex, currentTime, isManualSeek, score, glossaryIssues, lintTarget, lintLevels, speech, speechAnalyzing, canUndo, canRedo, searchMatches, currentMatch, canRemove, disabled,
+  onConfigChange, onRemove, onRun, onStop, onImport, onDownload, onRenameSpeaker, onRetryChunk, onSelectSegment, onDismissNotice,
+  onLintTargetChange, onLintLevelChange, onLintFix, onRetime, onAnalyzeSpeech, onEditSegments, onUndo, onRedo,
+}) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [showTiming, setShowTiming] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [showGlossaryIssues, setShowGlossaryIssues] = useState(false);
+  const [exportLanguage, setExportLanguage] = useState<string | null>(null);
+  const [exportSecond, setExportSecond] = useState<string | null | undefined>(undefined);
+
+  const isLoading = result.loading;
+  const languages = listTranslationLanguages(result.segments);
+  const shownLanguages = shownTranslations(pane.shownLanguages, languages);
+  const selectedExport = exportLanguage && languages.includes(exportLanguage) ? exportLanguage : null;
+  // The second line must be a different, still existing text
+  const secondExport = exportSecond === undefined || exportSecond === selectedExport || (exportSecond !== null && !languages.includes(exportSecond))
+    ? undefined
+    : exportSecond;
+  const isBilingual = secondExport !== undefined;
+  const chunks = result.chunks;
+  const showChunks = !!chunks && chunks.length > 1;
+  const speakers = listSpeakers(result.segments);
+  const { settings } = pane;
+  const issuesBySegment = new Map<number, GlossaryRule[]>();
+  glossaryIssues.forEach(issue => issuesBySegment.set(issue.index, [...(issuesBySegment.get(issue.index) || []), issue.rule]));
+  const matchesBySegment = useMemo(() => {
+    const grouped = new Map<number, TextMatch[]>();
+    searchMatches.forEach(m => grouped.set(m.index, [...(grouped.get(m.index) || []), m]));
+    return grouped;
+  }, [searchMatches]);
+
+  // Streaming and translation write segments by position, so edits wait until they finish
+  const canEdit = !isLoading && !result.translating;
+  // Word-level results only become subtitles once grouped into cues, so only line-level ones are linted.
+  // The text checked is the one the export buttons write.
+  const canLint = result.segments.length > 0 && !isLoading && result.granularity !== 'word';
+  const lintIssues = useMemo(
+    () => canLint ? lintSegments(result.segments, LINT_TARGETS[lintTarget], selectedExport, lintLevels) : [],
+    [canLint, result.segments, lintTarget, lintLevels, selectedExport]
+  );
+
+  return (
+    <div className="flex flex-col h-full min-h-0 bg-white flex-1 min-w-0 md:min-w-[320px]">
+      <div className={`px-4 py-2 border-b border-slate-200 flex-shrink-0 z-10 ${accent.header}`}>
+        <div className="flex items-center justify-between mb-1 gap-2">
+          <h2 className="text-[10px] md:text-xs font-black text-slate-800 uppercase tracking-widest flex items-center gap-2 min-w-0">
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${accent.dot}`}></span>
+            <span className="truncate">{pane.modelName}</span>
+            {pane.granularity === 'word' && (
+              <span className="normal-case tracking-normal font-bold text-[9px] text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">word</span>
+            )}
+            {result.importedFrom && (
+              <span className="normal-case tracking-normal font-bold text-[9px] text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded truncate max-w-[160px]" title={result.importedFrom}>
+                {result.importedFrom}
+              </span>
+            )}
+          </h2>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {result.segments.length > 0 && (
+              <>
+                {result.translating && (
+                  <span className="flex items-center gap-1 text-[9px] font-black text-indigo-600" title="Segments translated and checked so far">
+                    <span className="animate-spin h-3 w-3 border-2 border-indigo-600 border-t-transparent rounded-full"></span>
+                    {result.translationProgress && `${result.translationProgress.done}/${result.translationProgress.total}`}
+                    <button onClick={onStop} title="Stop translating; nothing translated so far is applied" className="text-indigo-400 hover:text-red-500 text-xs leading-none">×</button>
+                  </span>
+                )}
+                <span className="text-[9px] bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-black">
+                  {result.segments.length}
+                </span>
+              </>
+            )}
+            <button
+              onClick={onRun}
+              disabled={disabled || isLoading}
+              title="Transcribe with this pane's model and settings"
+              className="px-2 py-0.5 text-[9px] font-black border border-blue-200 rounded bg-blue-50 hover:bg-blue-100 text-blue-600 shadow-sm transition-all whitespace-nowrap disabled:opacity-50"
+            >
+              Run
+            </button>
+            <button
+              onClick={onImport}
+              disabled={isLoading}
+              title="Load an SRT, VTT, LRC, TTML or JSON file into this pane"
+              className="px-2 py-0.5 text-[9px] font-black border border-slate-200 rounded bg-white hover:bg-slate-50 text-slate-600 shadow-sm transition-all whitespace-nowrap disabled:opacity-50"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              title="Model and generation settings"
+              className={`px-2 py-0.5 text-[9px] font-black border rounded shadow-sm transition-all whitespace-nowrap ${showSettings ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+            >
+              Settings
+            </button>
+            {(canUndo || canRedo) && (
+              <div className="flex">
+                <button
+                  onClick={() => { setEditingIndex(null); onUndo(); }}
+                  disabled={!canUndo || !canEdit}
+                  title="Undo the last edit in this pane"
+                  className="px-1.5 py-0.5 text-[10px] font-black border border-slate-200 rounded-l bg-white hover:bg-slate-50 text-slate-600 shadow-sm disabled:opacity-40"
+                >
+                  ↶
+                </button>
+                <button
+                  onClick={() => { setEditingIndex(null); onRedo(); }}
+                  disabled={!canRedo || !canEdit}
+                  title="Redo"
+                  className="px-1.5 py-0.5 text-[10px] font-black border border-l-0 border-slate-200 rounded-r bg-white hover:bg-slate-50 text-slate-600 shadow-sm disabled:opacity-40"
+                >
+                  ↷
+                </button>
+              </div>
+            )}
+            {result.segments.length > 0 && (
+              <button
+                onClick={() => setShowTiming(prev => !prev)}
+                title="Offset, drift and frame-rate tools for this pane's timestamps"
+                className={`px-2 py-0.5 text-[9px] font-black border rounded shadow-sm transition-all whitespace-nowrap ${showTiming ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+              >
+                Timing
+              </button>
+            )}
+            {canRemove && (
+              <button
+                onClick={onRemove}
+                title="Remove this pane"
+                className="w-5 h-5 flex items-center justify-center text-slate-400 hover:text-red-600 hover:bg-red-50 rounded text-sm leading-none"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        </div>
+
+        {showTiming && result.segments.length > 0 && (
+          <TimingTools
+            segments={result.segments}
+            activeIndex={activeIndex}
+            currentTime={currentTime}
+            disabled={!canEdit}
+            onApply={onRetime}
+          />
+        )}
+
+        {showSettings && (
+          <div className="grid grid-cols-2 gap-2 py-2 mb-1 border-y border-slate-200/70 text-[10px] font-bold text-slate-500">
+            <label className="flex flex-col gap-0.5 col-span-2">
+              Model
+              <input
+                list={`models-${pane.id}`}
+                value={pane.modelName}
+                onChange={(e) => onConfigChange({ modelName: e.target.value })}
+                disabled={isLoading}
+                className="px-2 py-1 text-xs font-medium text-slate-900 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+              <datalist id={`models-${pane.id}`}>
+                {KNOWN_MODELS.map(m => <option key={m} value={m} />)}
+              </datalist>
+            </label>
+            <div className="flex flex-col gap-0.5">
+              Granularity
+              <div className="flex items-center bg-white rounded-lg border border-slate-300 overflow-hidden w-fit">
+                {(['line', 'word'] as const).map(g => (
+                  <button
+                    key={g}
+                    onClick={() => onConfigChange({ granularity: g })}
+                    disabled={isLoading}
+                    className={`px-3 py-1 text-xs font-semibold capitalize transition-colors ${pane.granularity === g ? 'bg-slate-100 text-slate-900' : 'text-slate-500 hover:bg-slate-50'}`}
+                  >
+                    {g}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="flex flex-col gap-0.5">
+              Temperature
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={settings.temperature}
+                onChange={(e) => onConfigChange({ settings: { ...settings, temperature: Number(e.target.value) || 0 } })}
+                disabled={isLoading}
+                className="px-2 py-1 text-xs font-medium text-slate-900 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+            </label>
+            <label className="flex flex-col gap-0.5 col-span-2">
+              Thinking budget
+              <input
+                type="number"
+                min={0}
+                step={256}
+                value={settings.thinkingBudget ?? ''}
+                placeholder="Model default"
+                onChange={(e) => onConfigChange({
+                  settings: { ...settings, thinkingBudget: e.target.value === '' ? undefined : Math.max(0, Math.round(Number(e.target.value))) },
+                })}
+                disabled={isLoading}
+                className="px-2 py-1 text-xs font-medium text-slate-900 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+            </label>
+            <label className="flex flex-col gap-0.5 col-span-2">
+              Extra instructions
+              <textarea
+                rows={2}
+                value={settings.instructions ?? ''}
+                placeholder="e.g. Spell the host's name as 'Siobhán'. Omit filler words."
+                onChange={(e) => onConfigChange({ settings: { ...settings, instructions: e.target.value } })}
+                disabled={isLoading}
+                className="px-2 py-1 text-xs font-medium text-slate-900 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500 resize-y disabled:opacity-50"
+              />
+            </label>
+          </div>
+        )}
+
+        {result.segments.length > 0 && (
+          <div className="flex flex-col gap-1.5 overflow-hidden">
+            <div className="flex items-center gap-2 overflow-x-auto pb-0.5 no-scrollbar">
+              {languages.length > 0 ? (
+                <select
+                  value={selectedExport ?? ''}
+                  onChange={(e) => setExportLanguage(e.target.value || null)}
+                  title="Text the export buttons write (the top line in bilingual subtitles)"
+                  className={`text-[9px] font-black uppercase border rounded py-0.5 px-1 outline-none flex-shrink-0 ${selectedExport ? 'border-indigo-100 bg-indigo-50 text-indigo-600' : 'border-slate-200 bg-white text-slate-500'}`}
+                >
+                  <option value="">Original</option>
+                  {languages.map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+              ) : (
+                <span className="text-[8px] font-bold text-slate-400 uppercase min-w-[32px]">Export:</span>
+              )}
+              {languages.length > 0 && (
+                <select
+                  value={secondExport === undefined ? NO_SECOND_LINE : secondExport ?? ''}
+                  onChange={(e) => setExportSecond(e.target.value === NO_SECOND_LINE ? undefined : e.target.value || null)}
+                  title="Second language, shown below the first in bilingual subtitles"
+                  className={`text-[9px] font-black uppercase border rounded py-0.5 px-1 outline-none flex-shrink-0 ${isBilingual ? 'border-indigo-100 bg-indigo-50 text-indigo-600' : 'border-slate-200 bg-white text-slate-400'}`}
+                >
+                  <option value={NO_SECOND_LINE}>+ None</option>
+                  {selectedExport !== null && <option value="">+ Original</option>}
+                  {languages.filter(l => l !== selectedExport).map(l => <option key={l} value={l}>+ {l}</option>)}
+                </select>
+              )}
+              {isBilingual && (
+                <button
+                  onClick={() => { setExportLanguage(secondExport ?? null); setExportSecond(selectedExport); }}
+                  title="Swap which language goes on top"
+                  className="px-1 text-[11px] font-black text-indigo-500 hover:text-indigo-800 leading-none flex-shrink-0"
+                >
+                  ⇅
+                </button>
+              )}
+              {(isBilingual ? BILINGUAL_FORMATS : EXPORT_FORMATS).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onDownload(format, selectedExport, secondExport)}
+                  className={`px-2 py-0.5 text-[9px] font-black border rounded shadow-sm transition-all whitespace-nowrap ${
+                    selectedExport ? 'border-indigo-100 bg-indigo-50 hover:bg-indigo-100 text-indigo-600' : 'border-slate-200 bg-white hover:bg-slate-50 text-slate-600'
+                  }`}
+                >
+                  {format}
+                </button>
+              ))}
+            </div>
+            {languages.length > 0 && (
+              <div className="flex items-center gap-1.5 overflow-x-auto pb-0.5 no-scrollbar">
+                <span className="text-[8px] font-bold text-indigo-400 uppercase min-w-[32px]" title="Translations shown under each segment (up to two)">Show:</span>
+                {languages.map(language => {
+                  const isShown = shownLanguages.includes(language);
+                  return (
+                    <button
+                      key={language}
+                      onClick={() => onConfigChange({
+                        shownLanguages: isShown ? shownLanguages.filter(l => l !== language) : showLanguage(shownLanguages, language),
+                      })}
+                      className={`px-1.5 py-0.5 text-[9px] font-bold rounded whitespace-nowrap border ${
+                        isShown ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-600 border-indigo-100 hover:bg-indigo-50'
+                      }`}
+                    >
+                      {language}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+        {result.notice && !isLoading && (
+          <div className="mt-1.5 flex items-start gap-2 px-2 py-1 rounded bg-amber-50 border border-amber-100 text-[10px] font-bold text-amber-700">
+            <span className="flex-1">{result.notice}</span>
+            <button onClick={onDismissNotice} title="Dismiss" className="text-amber-500 hover:text-amber-800 leading-none">×</button>
+          </div>
+        )}
+        {score && (
+          <div className="mt-1.5">
+            <ScoreSummary score={score} />
+          </div>
+        )}
+        {glossaryIssues.length > 0 && (
+          <div className="mt-1.5 px-2 py-1 rounded bg-rose-50 border border-rose-100 text-[10px] font-bold text-rose-700">
+            <button onClick={() => setShowGlossaryIssues(prev => !prev)} className="w-full flex items-center justify-between gap-2 text-left">
+              <span>{glossaryIssues.length} glossary issue{glossaryIssues.length === 1 ? '' : 's'}</span>
+              <span className="text-rose-400">{showGlossaryIssues ? '▲' : '▼'}</span>
+            </button>
+            {showGlossaryIssues && (
+              <ul className="mt-1 max-h-32 overflow-y-auto flex flex-col gap-0.5 font-medium">
+                {glossaryIssues.map((issue, i) => (
+                  <li key={i}>
+                    <button
+                      onClick={() => onSelectSegment(result.segments[issue.index].startTime)}
+                      className="text-left hover:underline"
+                    >
+                      <span className="font-mono">{result.segments[issue.index].startTime}</span>{' '}
+                      <span className="uppercase text-rose-400">{issue.language}</span>{' '}
+                      {issue.rule.kind === 'term'
+                        ? <>"{issue.rule.source}" should be "{issue.rule.target}"</>
+                        : <>"{issue.rule.source}" should stay untranslated</>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {canLint && (
+          <LintPanel
+            segments={result.segments}
+            issues={lintIssues}
+            targetKey={lintTarget}
+            levels={lintLevels}
+            onTargetChange={onLintTargetChange}
+            onLevelChange={onLintLevelChange}
+            onSelect={onSelectSegment}
+            onFix={onLintFix}
+            disabled={!canEdit}
+          />
+        )}
+        {result.segments.length > 0 && !isLoading && (
+          <SpeechPanel
+            segments={result.segments}
+            speech={speech}
+            analyzing={speechAnalyzing}
+            disabled={disabled}
+            readOnly={!canEdit}
+            onAnalyze={onAnalyzeSpeech}
+            onSelect={onSelectSegment}
+            onApply={onRetime}
+          />
+        )}
+        {speakers.length > 0 && (
+          <div className="mt-1.5">
+            <SpeakerLegend speakers={speakers} onRename={onRenameSpeaker} disabled={!canEdit} />
+          </div>
+        )}
+        {result.translating && result.translationProgress && result.translationProgress.total > 0 && (
+          <div className="mt-1.5 h-1 bg-indigo-50 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500 transition-all duration-300"
+              style={{ width: `${Math.round((result.translationProgress.done / result.translationProgress.total) * 100)}%` }}
+            ></div>
+          </div>
+        )}
+        {showChunks && chunks.some(c => c.status !== 'done') && (
+          <ChunkProgress chunks={chunks} onRetry={onRetryChunk} disabled={!canEdit} />
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto overflow-x-hidden relative bg-white scrolling-touch p-0 min-h-0">
+        {isLoading && result.segments.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center p-8">
+            <div className={`animate-spin rounded-full h-12 w-12 border-4 ${accent.spinner}`}></div>
+            {showChunks && (
+              <p className="mt-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                Chunk {Math.min(chunks.filter(c => c.status === 'done' || c.status === 'error').length + 1, chunks.length)} of {chunks.length}
+              </p>
+            )}
+            {result.notice && (
+              <p className="mt-4 max-w-xs text-center text-[10px] font-bold text-amber-600">{result.notice}</p>
+            )}
+            <button
+              onClick={onStop}
+              className="mt-6 px-4 py-1.5 bg-white border border-red-100 text-red-500 text-[10px] font-bold rounded-full hover:bg-red-50 transition-colors uppercase tracking-wide"
+            >
+              Stop Generation
+            </button>
+          </div>
+        ) : result.segments.length > 0 ? (
+          <div className="space-y-0.5">
+            {isLoading && (
+              <div className="sticky top-0 z-10 flex items-center gap-2 px-4 py-1.5 bg-white/90 backdrop-blur border-b border-slate-100">
+                <span className={`animate-spin h-3 w-3 rounded-full border-2 flex-shrink-0 ${accent.spinner}`}></span>
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest whitespace-nowrap">
+                  Streaming{showChunks && ` · chunk ${Math.min(chunks.filter(c => c.status === 'done' || c.status === 'error').length + 1, chunks.length)} of ${chunks.length}`}
+                </span>
+                {result.notice && <span className="text-[10px] font-bold text-amber-600 truncate" title={result.notice}>{result.notice}</span>}
+                <button
+                  onClick={onStop}
+                  title="Stop and keep the segments received so far"
+                  className="ml-auto px-3 py-0.5 bg-white border border-red-100 text-red-500 text-[10px] font-bold rounded-full hover:bg-red-50 transition-colors uppercase tracking-wide whitespace-nowrap"
+                >
+                  Stop
+                </button>
+              </div>
+            )}
+            {result.segments.map((s, idx) => editingIndex === idx && canEdit ? (
+              <SegmentEditor
+                key={`${pane.id}-edit-${idx}-${s.startTime}`}
+                segment={s}
+                index={idx}
+                hasNext={idx + 1 < result.segments.length}
+                currentTime={currentTime}
+                onApply={onEditSegments}
+                onInserted={setEditingIndex}
+                onClose={() => setEditingIndex(null)}
+              />
+            ) : (
+              <SegmentItem
+                key={`${pane.id}-${idx}-${s.startTime}`}
+                segment={s}
+                speakerColor={s.speaker ? getSpeakerColor(s.speaker, speakers) : undefined}
+                score={score?.segments[idx]}
+                glossaryViolations={issuesBySegment.get(idx)}
+                languages={shownLanguages}
+                isActive={activeIndex === idx}
+                isManualSeek={isManualSeek}
+                onSelect={onSelectSegment}
+                onEdit={canEdit ? () => setEditingIndex(idx) : undefined}
+                matches={matchesBySegment.get(idx)}
+                currentMatch={currentMatch?.index === idx ? currentMatch : null}
+              />
+            ))}
+          </div>
+        ) : result.error ? (
+          <div className="h-full flex flex-col items-center justify-center p-8 text-center text-slate-400">
+            <div className="bg-red-50 p-3 rounded-full mb-3">
+               <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-red-500"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="8" x2="12" y2="12"></line><line x1="12" y1="16" x2="12.01" y2="16"></line></svg>
+            </div>
+            <p className="text-xs font-bold text-red-600">{result.error}</p>
+          </div>
+        ) : (
+          <div className="h-full flex flex-col items-center justify-center p-8 text-center opacity-25">
+            <svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"><path d="M2 10v3"/><path d="M6 6v11"/><path d="M10 3v18"/><path d="M14 8v7"/><path d="M18 5v13"/><path d="M22 10v3"/></svg>
+            <p className="mt-4 text-[10px] md:text-xs font-black uppercase tracking-widest">Awaiting Audio</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionPane;
@@ -0,0 +1,267 @@
+
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { timestampToSeconds } from '../services/geminiService';
+import { WaveformData } from '../utils/audio';
+import { SpeechRegion } from '../utils/vad';
+
+/** One pane's segments drawn as a row of regions. */
+export interface TimelineLane {
+  id: string;
+  label: string;
+  regionClass: string; // Full Tailwind classes for the pane's accent
+  segments: TranscriptionSegment[];
+  activeIndex: number;
+  editable: boolean; // False while the pane is streaming or translating; its regions can't be dragged
+}
+
+interface WaveformTimelineProps {
+  waveform: WaveformData | null;
+  loading?: boolean;
+  speech?: SpeechRegion[] | null; // Drawn under the waveform once detected
+  currentTime: number;
+  lanes: TimelineLane[];
+  onSeek: (seconds: number) => void;
+  onRetime: (laneId: string, index: number, start: number, end: number) => void;
+}
+
+interface DragState {
+  laneId: string;
+  index: number;
+  edge: 'start' | 'end';
+  start: number;
+  end: number;
+  min: number; // Bounds for the dragged edge
+  max: number;
+}
+
+const WAVE_HEIGHT = 56;
+const LANE_HEIGHT = 18;
+const MAX_PIXELS_PER_SECOND = 400;
+const MIN_SEGMENT = 0.05; // Seconds; matches the shortest duration the monotonicity fix allows
+// Ruler spacing is the first of these that leaves at least 60px between labels
+const TICK_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 1800];
+
+/** M:SS, with as many decimals as the tick spacing needs. */
+const formatTick = (seconds: number, step: number): string => {
+  const decimals = step >= 1 ? 0 : step >= 0.5 ? 1 : 2;
+  const m = Math.floor(seconds / 60);
+  const s = (seconds - m * 60).toFixed(decimals);
+  return `${m}:${s.padStart(decimals > 0 ? 3 + decimals : 2, '0')}`;
+};
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({ waveform, loading, speech, currentTime, lanes, onSeek, onRetime }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [zoom, setZoom] = useState<number | null>(null); // Pixels per second; null fits the whole file
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const wheelRef = useRef<(e: WheelEvent) => void>(() => {});
+
+  const segmentEnd = lanes.reduce((max, lane) => {
+    const last = lane.segments[lane.segments.length - 1];
+    return last ? Math.max(max, timestampToSeconds(last.endTime)) : max;
+  }, 0);
+  const duration = waveform?.duration || Math.max(segmentEnd, 1);
+  const fitZoom = viewWidth > 0 ? viewWidth / duration : 1;
+  const pps = Math.max(fitZoom, Math.min(MAX_PIXELS_PER_SECOND, zoom ?? fitZoom));
+  const totalWidth = Math.max(viewWidth, Math.ceil(duration * pps));
+  const viewStart = scrollLeft / pps;
+  const viewEnd = (scrollLeft + viewWidth) / pps;
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewWidth(element.clientWidth));
+    observer.observe(element);
+    setViewWidth(element.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Only the visible slice is drawn, so the canvas stays the size of the viewport at any zoom
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewWidth === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewWidth * ratio);
+    canvas.height = Math.round(WAVE_HEIGHT * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, viewWidth, WAVE_HEIGHT);
+    if (!waveform) return;
+
+    const mid = WAVE_HEIGHT / 2;
+    ctx.fillStyle = '#94a3b8';
+    for (let x = 0; x < viewWidth; x++) {
+      const from = Math.floor(((scrollLeft + x) / pps) * waveform.peaksPerSecond);
+      const to = Math.max(from + 1, Math.floor(((scrollLeft + x + 1) / pps) * waveform.peaksPerSecond));
+      let peak = 0;
+      for (let i = from; i < to && i < waveform.peaks.length; i++) peak = Math.max(peak, waveform.peaks[i]);
+      const h = Math.max(0.5, peak * (mid - 2));
+      ctx.fillRect(x, mid - h, 1, h * 2);
+    }
+  }, [waveform, viewWidth, scrollLeft, pps]);
+
+  // Keep the playhead in view while it moves, unless an edge is being dragged.
+  // Not re-run on zoom, which keeps the point under the cursor in place instead.
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || drag || viewWidth === 0) return;
+    const x = currentTime * pps;
+    if (x < element.scrollLeft || x > element.scrollLeft + viewWidth - 20) {
+      element.scrollLeft = Math.max(0, x - viewWidth * 0.1);
+    }
+  }, [currentTime, viewWidth, drag]);
+
+  // React's wheel listener is passive, so Ctrl + scroll could not stop the page from zooming
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const listener = (e: WheelEvent) => wheelRef.current(e);
+    element.addEventListener('wheel', listener, { passive: false });
+    return () => element.removeEventListener('wheel', listener);
+  }, []);
+
+  const timeAt = (clientX: number): number => {
+    const element = scrollRef.current;
+    if (!element) return 0;
+    const rect = element.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, (clientX - rect.left + element.scrollLeft) / pps));
+  };
+
+  // Zooms around `anchor` (seconds), keeping it under the same screen position
+  const zoomTo = (next: number, anchor: number) => {
+    const element = scrollRef.current;
+    const clamped = Math.max(fitZoom, Math.min(MAX_PIXELS_PER_SECOND, next));
+    setZoom(clamped);
+    if (element) {
+      const offset = anchor * pps - element.scrollLeft;
+      requestAnimationFrame(() => { element.scrollLeft = Math.max(0, anchor * clamped - offset); });
+    }
+  };
+
+  wheelRef.current = (e: WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+    zoomTo(pps * (e.deltaY < 0 ? 1.25 : 0.8), timeAt(e.clientX));
+  };
+
+  const startDrag = (e: React.PointerEvent, lane: TimelineLane, index: number, edge: 'start' | 'end') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const segment = lane.segments[index];
+    const start = timestampToSeconds(segment.startTime);
+    const end = timestampToSeconds(segment.endTime);
+    // Edges stop at the neighbours, or where they already are if the segments overlap
+    const prevEnd = index > 0 ? timestampToSeconds(lane.segments[index - 1].endTime) : 0;
+    const nextStart = index + 1 < lane.segments.length ? timestampToSeconds(lane.segments[index + 1].startTime) : duration;
+    setDrag(edge === 'start'
+      ? { laneId: lane.id, index, edge, start, end, min: Math.min(prevEnd, start), max: end - MIN_SEGMENT }
+      : { laneId: lane.id, index, edge, start, end, min: start + MIN_SEGMENT, max: Math.max(nextStart, end) });
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const t = Math.max(drag.min, Math.min(drag.max, timeAt(e.clientX)));
+    setDrag(drag.edge === 'start' ? { ...drag, start: t } : { ...drag, end: t });
+  };
+
+  const endDrag = () => {
+    if (!drag) return;
+    // The pane may have started streaming or translating since the drag began
+    if (lanes.find(l => l.id === drag.laneId)?.editable) onRetime(drag.laneId, drag.index, drag.start, drag.end);
+    setDrag(null);
+  };
+
+  const tickStep = TICK_STEPS.find(step => step * pps >= 60) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const ticks: number[] = [];
+  for (let t = Math.floor(viewStart / tickStep) * tickStep; t <= viewEnd; t += tickStep) ticks.push(t);
+
+  const zoomButtonClass = "w-6 h-6 flex items-center justify-center text-xs font-black border border-slate-200 rounded bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40";
+
+  return (
+    <div className="flex flex-col gap-1 w-full">
+      <div className="flex items-center gap-1 text-[9px] font-bold text-slate-400">
+        <button onClick={() => zoomTo(pps / 2, currentTime)} disabled={pps <= fitZoom} title="Zoom out" className={zoomButtonClass}>−</button>
+        <button onClick={() => zoomTo(pps * 2, currentTime)} disabled={pps >= MAX_PIXELS_PER_SECOND} title="Zoom in (or Ctrl + scroll)" className={zoomButtonClass}>+</button>
+        <button onClick={() => setZoom(null)} disabled={zoom === null} title="Fit the whole file" className={`${zoomButtonClass} w-auto px-1.5`}>Fit</button>
+        <span className="ml-1">{loading ? 'Decoding audio…' : !waveform ? 'Waveform unavailable for this format' : 'Drag a region edge to retime it'}</span>
+      </div>
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+        onPointerMove={moveDrag}
+        onPointerUp={endDrag}
+        className="relative overflow-x-auto overflow-y-hidden border border-slate-200 rounded-lg bg-slate-50 select-none"
+      >
+        <div
+          className="relative cursor-text"
+          style={{ width: totalWidth, height: 14 + WAVE_HEIGHT + lanes.length * LANE_HEIGHT }}
+          onPointerDown={(e) => onSeek(timeAt(e.clientX))}
+        >
+          {ticks.map(t => (
+            <div key={t} className="absolute top-0 h-3 border-l border-slate-300 pl-0.5 text-[8px] font-mono text-slate-400 leading-none" style={{ left: t * pps }}>
+              {formatTick(t, tickStep)}
+            </div>
+          ))}
+          <canvas
+            ref={canvasRef}
+            className="absolute"
+            style={{ left: scrollLeft, top: 14, width: viewWidth, height: WAVE_HEIGHT }}
+          />
+          {speech?.filter(region => region.end >= viewStart && region.start <= viewEnd).map(region => (
+            <div
+              key={region.start}
+              title="Detected speech"
+              className="absolute h-1 rounded-full bg-emerald-400/70 pointer-events-none"
+              style={{ top: 14 + WAVE_HEIGHT - 4, left: region.start * pps, width: Math.max(1, (region.end - region.start) * pps) }}
+            ></div>
+          ))}
+          {lanes.map((lane, laneIndex) => (
+            <div key={lane.id} className="absolute left-0 right-0 border-t border-slate-200/70" style={{ top: 14 + WAVE_HEIGHT + laneIndex * LANE_HEIGHT, height: LANE_HEIGHT }}>
+              <span className="sticky left-0 z-10 inline-block px-1 text-[8px] font-black text-slate-400 bg-slate-50/80 pointer-events-none">{lane.label}</span>
+              {lane.segments.map((segment, index) => {
+                const dragged = drag && drag.laneId === lane.id && drag.index === index ? drag : null;
+                const start = dragged ? dragged.start : timestampToSeconds(segment.startTime);
+                const end = dragged ? dragged.end : timestampToSeconds(segment.endTime);
+                // Regions outside the viewport are skipped so long or word-level transcripts stay fast
+                if (end < viewStart || start > viewEnd) return null;
+                const width = Math.max(2, (end - start) * pps);
+                return (
+                  <div
+                    key={index}
+                    title={`${segment.startTime} → ${segment.endTime}\n${segment.text}`}
+                    onPointerDown={(e) => { e.stopPropagation(); onSeek(start); }}
+                    className={`absolute top-0.5 bottom-0.5 rounded-sm border overflow-hidden text-[8px] leading-[13px] px-1 whitespace-nowrap cursor-pointer ${lane.regionClass} ${
+                      index === lane.activeIndex ? 'ring-1 ring-slate-900' : ''
+                    }`}
+                    style={{ left: start * pps, width }}
+                  >
+                    {width > 30 && segment.text}
+                    {lane.editable && width > 8 && (
+                      <>
+                        <span
+                          onPointerDown={(e) => startDrag(e, lane, index, 'start')}
+                          className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-slate-900/30"
+                        ></span>
+                        <span
+                          onPointerDown={(e) => startDrag(e, lane, index, 'end')}
+                          className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-slate-900/30"
+                        ></span>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+          <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" style={{ left: currentTime * pps }}></div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTimeline;
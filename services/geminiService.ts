@@ -1,8 +1,11 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { TranscriptionSegment } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+import { Type } from "@google/genai";
+import { AudioChunk, GenerationSettings, Granularity, TranscriptionSegment, TranslationProgress } from "../types";
+import { getActiveProvider, TranscriptionRequest, TranslationItem, TranslationRequest } from "./providers";
+import { ModelErrorContext, ModelRequestError, classifyError } from "./modelErrors";
+import { RetryInfo, withRetry } from "./retry";
+import { GlossaryRule, rulesInText, segmentViolations } from "../utils/glossary";
+import { withTranslation } from "../utils/translations";
 
 const TRANSCRIPTION_SCHEMA = {
   type: Type.OBJECT,
@@ -24,8 +27,14 @@ const TRANSCRIPTION_SCHEMA = {
             type: Type.STRING,
             description: "Transcribed text. Exact words spoken.",
           },
+          speaker: {
+            type: Type.STRING,
+            description: "Who is speaking, labelled 'Speaker 1', 'Speaker 2', ... in order of first appearance.",
+          },
         },
         required: ["startTime", "endTime", "text"],
+        // Keep speaker last so the regex fallback in tryRepairJson still matches truncated output
+        propertyOrdering: ["startTime", "endTime", "text", "speaker"],
       },
     },
   },
@@ -72,7 +81,7 @@ export function timestampToSeconds(ts: string): number {
 /**
  * Formats seconds back to HH:MM:SS.mmm correctly handling rounding.
  */
-function secondsToTimestamp(totalSeconds: number): string {
+export function secondsToTimestamp(totalSeconds: number): string {
   const roundedMs = Math.round(totalSeconds * 1000);
   const h = Math.floor(roundedMs / 3600000);
   const m = Math.floor((roundedMs % 3600000) / 60000);
@@ -83,18 +92,18 @@ function secondsToTimestamp(totalSeconds: number): string {
 }
 
 /**
- * Repairs non-monotonic timestamps (jumping backwards).
+ * Stateful form of the monotonicity fix, so segments can be corrected one at a time
+ * as they stream in and still come out identical to a batch pass.
  */
-function enforceMonotonicity(segments: any[]): TranscriptionSegment[] {
-  if (!segments || segments.length === 0) return [];
+export class MonotonicityTracker {
+  private lastStartTime = -1;
+  private lastEndTime = 0;
 
-  const processed: TranscriptionSegment[] = [];
-  let lastStartTime = -1;
-  let lastEndTime = 0;
-
-  for (const seg of segments) {
+  push(seg: any): TranscriptionSegment {
     let start = timestampToSeconds(seg.startTime);
     let end = timestampToSeconds(seg.endTime);
+    const lastStartTime = this.lastStartTime;
+    const lastEndTime = this.lastEndTime;
 
     // 1. Fix backward jumps (Model hallucination or reset)
     // If start time jumps back significantly compared to last end, clamp it.
@@ -116,22 +125,81 @@ function enforceMonotonicity(segments: any[]): TranscriptionSegment[] {
     }
 
     // Update trackers
-    lastStartTime = start;
-    lastEndTime = end;
+    this.lastStartTime = start;
+    this.lastEndTime = end;
 
-    processed.push({
+    const segment: TranscriptionSegment = {
       startTime: secondsToTimestamp(start),
       endTime: secondsToTimestamp(end),
       text: String(seg.text).trim()
-    });
+    };
+    if (seg.speaker) segment.speaker = String(seg.speaker).trim();
+    if (seg.translations) segment.translations = seg.translations; // Kept when re-checking edited segments
+    return segment;
   }
+}
 
-  return processed;
+/**
+ * Repairs non-monotonic timestamps (jumping backwards).
+ */
+export function enforceMonotonicity(segments: any[]): TranscriptionSegment[] {
+  if (!segments || segments.length === 0) return [];
+  const tracker = new MonotonicityTracker();
+  return segments.map(seg => tracker.push(seg));
 }
 
 /**
  * Attempts to repair truncated JSON strings.
  */
+// One segment object in the model's property order; speaker is optional and last.
+// Quoted timestamps may contain a comma decimal separator ("00:00:12,930").
+const SEGMENT_PATTERN = /\{\s*"startTime"\s*"?\s*:\s*(?:"([^"]*)"|([^",}\s]+))\s*,\s*"endTime"\s*"?\s*:\s*(?:"([^"]*)"|([^",}\s]+))\s*,\s*"text"\s*"?\s*:\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)')(?:\s*,\s*"speaker"\s*:\s*"((?:[^"\\]|\\.)*)")?/.source;
+
+const segmentFromMatch = (match: RegExpExecArray) => {
+  const rawText = match[5] !== undefined ? match[5] : match[6];
+  let unescapedText = rawText;
+  try {
+    unescapedText = JSON.parse(`"${rawText.replace(/"/g, '\\"')}"`); 
+  } catch (e) {
+    unescapedText = rawText.replace(/\\"/g, '"').replace(/\\'/g, "'").replace(/\\\\/g, "\\");
+  }
+
+  return {
+    startTime: match[1] ?? match[2],
+    endTime: match[3] ?? match[4],
+    text: unescapedText,
+    speaker: match[7]
+  };
+};
+
+/**
+ * Pulls segment objects out of a JSON response while it is still streaming.
+ * Uses the same pattern as the tryRepairJson fallback, but only accepts an object once its
+ * closing brace has arrived, so a half-received speaker or text is never emitted early.
+ */
+export class IncrementalSegmentParser {
+  private buffer = '';
+  private cursor = 0;
+  private readonly pattern = new RegExp(`${SEGMENT_PATTERN}\\s*\\}`, 'g');
+
+  /** Appends streamed text and returns the segments completed by it. */
+  push(chunk: string): ReturnType<typeof segmentFromMatch>[] {
+    this.buffer += chunk;
+    const found = [];
+    this.pattern.lastIndex = this.cursor;
+    let match;
+    while ((match = this.pattern.exec(this.buffer)) !== null) {
+      found.push(segmentFromMatch(match));
+      this.cursor = this.pattern.lastIndex;
+    }
+    return found;
+  }
+
+  get text(): string {
+    return this.buffer;
+  }
+}
+
 function tryRepairJson(jsonString: string): any {
   const trimmed = jsonString.trim();
 
@@ -159,23 +227,11 @@ function tryRepairJson(jsonString: string): any {
 
   // Fallback regex extraction
   const segments = [];
-  const segmentRegex = /\{\s*"startTime"\s*"?\s*:\s*"?([^",]+)"?\s*,\s*"endTime"\s*"?\s*:\s*"?([^",]+)"?\s*,\s*"text"\s*"?\s*:\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)')/g;
+  const segmentRegex = new RegExp(SEGMENT_PATTERN, 'g');
   
   let match;
   while ((match = segmentRegex.exec(trimmed)) !== null) {
-    const rawText = match[3] !== undefined ? match[3] : match[4];
-    let unescapedText = rawText;
-    try {
-      unescapedText = JSON.parse(`"${rawText.replace(/"/g, '\\"')}"`); 
-    } catch (e) {
-      unescapedText = rawText.replace(/\\"/g, '"').replace(/\\'/g, "'").replace(/\\\\/g, "\\");
-    }
-
-    segments.push({
-      startTime: match[1],
-      endTime: match[2],
-      text: unescapedText
-    });
+    segments.push(segmentFromMatch(match));
   }
   
   if (segments.length > 0) {
@@ -185,13 +241,26 @@ function tryRepairJson(jsonString: string): any {
   throw new Error("Response structure invalid and could not be repaired.");
 }
 
+export interface TranscribeOptions {
+  settings?: GenerationSettings;
+  onRetry?: (info: RetryInfo) => void;
+  /**
+   * Called with every segment completed so far while the response streams in, already
+   * monotonic. A retry starts over, so the list can shrink back to empty.
+   */
+  onPartial?: (segments: TranscriptionSegment[]) => void;
+}
+
 export async function transcribeAudio(
   modelName: string,
   audioBase64: string,
   mimeType: string,
   signal?: AbortSignal,
-  granularity: 'line' | 'word' = 'line'
+  granularity: Granularity = 'line',
+  options: TranscribeOptions = {}
 ): Promise<TranscriptionSegment[]> {
+  const { settings, onRetry, onPartial } = options;
+  const context: ModelErrorContext = { modelName, operation: 'transcription' };
   try {
     const isGemini3 = modelName.includes('gemini-3');
     
@@ -230,42 +299,51 @@ export async function transcribeAudio(
     }
     `;
 
+    const diarizationPolicy = `
+    SPEAKER DIARIZATION:
+    1. Set "speaker" on EVERY segment: "Speaker 1", "Speaker 2", ... numbered in order of first appearance.
+    2. Keep the same label for the same voice for the whole file.
+    3. Start a new segment whenever the speaker changes, even mid-sentence.
+    `;
+
     const segmentationPolicy = granularity === 'word' ? wordLevelPolicy : subtitlePolicy;
 
     const requestConfig: any = {
       responseMimeType: "application/json",
       responseSchema: TRANSCRIPTION_SCHEMA,
-      temperature: 0,
+      temperature: settings?.temperature ?? 0,
       topP: 0.95, // Encourage focused probability mass
       topK: 64,   // Restrict vocabulary to likely candidates
     };
 
-    if (isGemini3) {
+    if (settings?.thinkingBudget !== undefined) {
+      requestConfig.thinkingConfig = { thinkingBudget: settings.thinkingBudget };
+    } else if (isGemini3) {
       requestConfig.thinkingConfig = { thinkingBudget: 2048 }; 
     }
 
+    // Per-pane prompt variant, e.g. spelling hints for names or a different transcription style
+    const extraInstructions = settings?.instructions?.trim() ? `
+    ADDITIONAL INSTRUCTIONS:
+    ${settings.instructions.trim()}
+    ` : '';
+
     const abortPromise = new Promise<never>((_, reject) => {
       if (signal?.aborted) reject(new DOMException("Aborted", "AbortError"));
       signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
     });
 
-    const response: any = await Promise.race([
-      ai.models.generateContent({
-        model: modelName,
-        contents: [
-          {
-            parts: [
-              {
-                inlineData: {
-                  data: audioBase64,
-                  mimeType: mimeType,
-                },
-              },
-              {
-                text: `You are a high-fidelity audio alignment and transcription engine expert.
+    const request: TranscriptionRequest = {
+      modelName,
+      audioBase64,
+      mimeType,
+      granularity,
+      prompt: `You are a high-fidelity audio alignment and transcription engine expert.
                 
                 ${timingPolicy}
                 ${segmentationPolicy}
+                ${diarizationPolicy}
+                ${extraInstructions}
                 
                 ${fewShotExamples}
 
@@ -277,17 +355,31 @@ export async function transcribeAudio(
                 - Listen carefully for fast speech; preserve millisecond-level precision.
                 
                 Audio processing...`,
-              },
-            ],
-          },
-        ],
-        config: requestConfig,
-      }),
-      abortPromise
-    ]);
+      config: requestConfig,
+    };
+
+    const streamResponse = async (attempt: number): Promise<string> => {
+      const parser = new IncrementalSegmentParser();
+      const tracker = new MonotonicityTracker();
+      const partial: TranscriptionSegment[] = [];
+      if (attempt > 1) onPartial?.([]);
+
+      for await (const delta of getActiveProvider().transcribeStream(request, signal)) {
+        const completed = parser.push(delta);
+        if (completed.length > 0) {
+          partial.push(...completed.map(seg => tracker.push(seg)));
+          onPartial?.(partial.slice());
+        }
+      }
+      return parser.text;
+    };
 
-    let text = response.text;
-    if (!text) throw new Error("Empty response from model");
+    // Transient failures (429, 5xx, network, empty output) are retried with backoff
+    let text = await withRetry(async (attempt) => {
+      const raw = await Promise.race([streamResponse(attempt), abortPromise]);
+      if (!raw || !raw.trim()) throw new ModelRequestError('empty_response', "Empty response from model", { context });
+      return raw;
+    }, { signal, context, onRetry });
 
     text = text.trim();
     if (text.startsWith('```json')) {
@@ -296,7 +388,12 @@ export async function transcribeAudio(
       text = text.replace(/^```\s*/, '').replace(/\s*```$/, '');
     }
 
-    const parsed = tryRepairJson(text);
+    let parsed: any;
+    try {
+      parsed = tryRepairJson(text);
+    } catch (parseError: any) {
+      throw new ModelRequestError('invalid_response', parseError.message, { context });
+    }
     const rawSegments = parsed.segments || [];
 
     // Apply strict post-processing to fix jumping timestamps
@@ -305,85 +402,277 @@ export async function transcribeAudio(
   } catch (error: any) {
     if (error.name === 'AbortError') throw error;
     console.error(`Error with ${modelName}:`, error);
-    throw new Error(error.message || "Transcription failed");
+    throw classifyError(error, context);
   }
 }
 
-export async function translateSegments(
-  segments: TranscriptionSegment[],
-  targetLanguage: string
+/**
+ * Transcribes a single audio chunk and shifts its timestamps by the chunk offset
+ * so they are absolute relative to the original file.
+ */
+export async function transcribeChunk(
+  modelName: string,
+  chunk: AudioChunk,
+  signal?: AbortSignal,
+  granularity: Granularity = 'line',
+  options: TranscribeOptions = {}
 ): Promise<TranscriptionSegment[]> {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: [
-        {
-          parts: [
-            {
-              text: `Translate the following segments into ${targetLanguage}. 
-              CRITICAL: Do NOT modify the timestamps. Keep the exact format provided.
-              Data: ${JSON.stringify(segments)}`,
-            },
-          ],
+  const shift = (segments: TranscriptionSegment[]) => chunk.start === 0 ? segments : segments.map(s => ({
+    ...s,
+    startTime: secondsToTimestamp(timestampToSeconds(s.startTime) + chunk.start),
+    endTime: secondsToTimestamp(timestampToSeconds(s.endTime) + chunk.start),
+  }));
+
+  const onPartial = options.onPartial;
+  const segments = await transcribeAudio(modelName, chunk.base64, chunk.mimeType, signal, granularity, {
+    ...options,
+    onPartial: onPartial && (partial => onPartial(shift(partial))),
+  });
+  return shift(segments);
+}
+
+const normalizeForCompare = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+const ownsSegment = (chunk: AudioChunk, segment: TranscriptionSegment): boolean => {
+  const mid = (timestampToSeconds(segment.startTime) + timestampToSeconds(segment.endTime)) / 2;
+  return mid >= chunk.ownStart && mid < chunk.ownEnd;
+};
+
+/**
+ * Stitches per-chunk results into one timeline.
+ * Each segment is kept only by the chunk that owns its midpoint, which drops the
+ * duplicates transcribed twice in overlap zones. A segment straddling the cut can
+ * still be emitted by both sides with slightly different timing, so identical
+ * neighbours across a boundary are collapsed as well.
+ * Chunks without results (failed or not yet run) are skipped.
+ */
+export function mergeChunkSegments(
+  chunks: AudioChunk[],
+  chunkResults: (TranscriptionSegment[] | undefined)[]
+): TranscriptionSegment[] {
+  const merged: TranscriptionSegment[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const segments = chunkResults[i];
+    if (!segments) return;
+
+    const owned = segments.filter(s => ownsSegment(chunk, s));
+
+    const prev = merged[merged.length - 1];
+    const first = owned[0];
+    if (prev && first && normalizeForCompare(prev.text) === normalizeForCompare(first.text)
+      && timestampToSeconds(first.startTime) < timestampToSeconds(prev.endTime)) {
+      owned.shift();
+    }
+
+    merged.push(...owned);
+  });
+
+  return enforceMonotonicity(merged);
+}
+
+/**
+ * Swaps one chunk's share of an existing timeline for a fresh result of that chunk.
+ * Segments owned by other chunks are kept as they are, edits and translations included.
+ */
+export function spliceChunkSegments(
+  current: TranscriptionSegment[],
+  chunk: AudioChunk,
+  chunkSegments: TranscriptionSegment[]
+): TranscriptionSegment[] {
+  const kept = current.filter(s => !ownsSegment(chunk, s));
+  const after = kept.findIndex(s => timestampToSeconds(s.startTime) >= chunk.ownStart);
+  const at = after === -1 ? kept.length : after;
+  return enforceMonotonicity([...kept.slice(0, at), ...chunkSegments.filter(s => ownsSegment(chunk, s)), ...kept.slice(at)]);
+}
+
+const TRANSLATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    translations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER, description: "The id of the item being translated, unchanged." },
+          translatedText: { type: Type.STRING },
         },
-      ],
+        required: ["id", "translatedText"],
+        propertyOrdering: ["id", "translatedText"],
+      },
+    },
+  },
+  required: ["translations"],
+};
+
+const TRANSLATION_BATCH_SIZE = 40;
+const TRANSLATION_CONTEXT_SIZE = 3; // Neighbouring segments sent on each side of a batch
+const TRANSLATION_PASSES = 3; // First request plus re-requests for whatever is still missing
+
+const TRANSLATION_PATTERN = /\{\s*"id"\s*:\s*"?(\d+)"?\s*,\s*"translatedText"\s*:\s*("(?:[^"\\]|\\.)*")\s*\}/g;
+
+export interface TranslateOptions {
+  onRetry?: (info: RetryInfo) => void;
+  onProgress?: (progress: TranslationProgress) => void;
+  glossary?: GlossaryRule[]; // Terminology for the target language, see utils/glossary
+}
+
+export interface TranslationOutcome {
+  segments: TranscriptionSegment[];
+  missing: number[]; // Indices that never came back once after every pass
+}
+
+const describeGlossary = (rules: GlossaryRule[]): string => {
+  const terms = rules.filter(r => r.kind === 'term');
+  const keep = rules.filter(r => r.kind === 'do_not_translate');
+  return [
+    terms.length > 0 ? `Glossary (mandatory, use these renderings every time the term appears): ${terms.map(r => `${JSON.stringify(r.source)} → ${JSON.stringify(r.target)}`).join('; ')}` : '',
+    keep.length > 0 ? `Do not translate (copy exactly as written): ${keep.map(r => JSON.stringify(r.source)).join(', ')}` : '',
+  ].filter(Boolean).join('\n');
+};
+
+const toTranslationItem = (segment: TranscriptionSegment, id: number): TranslationItem =>
+  segment.speaker ? { id, text: segment.text, speaker: segment.speaker } : { id, text: segment.text };
+
+/**
+ * Reads `{ id, translatedText }` entries from a response. A cut-off or malformed document
+ * still yields its complete entries, so only the rest has to be asked for again.
+ */
+function parseTranslations(text: string): { id: number; translatedText: string }[] {
+  text = text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  try {
+    const parsed = JSON.parse(text);
+    const entries = Array.isArray(parsed) ? parsed : parsed?.translations;
+    if (Array.isArray(entries)) {
+      return entries
+        .filter((e: any) => e && typeof e.translatedText === 'string' && Number.isInteger(Number(e.id)))
+        .map((e: any) => ({ id: Number(e.id), translatedText: e.translatedText }));
+    }
+  } catch (e) {
+    // Fall through to the entry-by-entry scan
+  }
+  return Array.from(text.matchAll(TRANSLATION_PATTERN), match => ({
+    id: Number(match[1]),
+    translatedText: JSON.parse(match[2]),
+  }));
+}
+
+/**
+ * Keeps only translations for ids that were asked for and came back exactly once.
+ * A duplicated id is ambiguous (merged or shifted lines), so it counts as missing.
+ */
+function acceptTranslations(entries: { id: number; translatedText: string }[], requested: number[]): Map<number, string> {
+  const wanted = new Set(requested);
+  const counts = new Map<number, number>();
+  entries.forEach(e => counts.set(e.id, (counts.get(e.id) || 0) + 1));
+  const accepted = new Map<number, string>();
+  entries.forEach(e => {
+    if (wanted.has(e.id) && counts.get(e.id) === 1 && e.translatedText.trim()) accepted.set(e.id, e.translatedText);
+  });
+  return accepted;
+}
+
+/**
+ * Translates a transcript in batches. Each segment is sent with its index as id alongside a
+ * few neighbouring lines for context; the reply is matched back by id, every id must appear
+ * exactly once, and missing ones are re-requested. Timings and text always come from the
+ * input segments; only the `targetLanguage` translation is taken from the model, and
+ * translations into other languages are kept. Glossary terms found in a
+ * batch go into its prompt, and translations that break them count as missing until the last pass.
+ */
+export async function translateSegments(
+  segments: TranscriptionSegment[],
+  targetLanguage: string,
+  signal?: AbortSignal,
+  options: TranslateOptions = {}
+): Promise<TranslationOutcome> {
+  const { onRetry, onProgress, glossary = [] } = options;
+  const modelName = "gemini-3-flash-preview";
+  const context: ModelErrorContext = { modelName, operation: 'translation' };
+
+  const translations = new Map<number, string>();
+  // Blank segments (e.g. instrumental gaps) have nothing to translate
+  const pending = segments.map((_, i) => i).filter(i => segments[i].text.trim());
+  const total = pending.length;
+  onProgress?.({ done: 0, total });
+
+  const requestBatch = async (ids: number[]): Promise<Map<number, string>> => {
+    const first = ids[0];
+    const last = ids[ids.length - 1];
+    const inBatch = new Set(ids);
+    const around = (from: number, to: number) => segments
+      .slice(Math.max(0, from), Math.max(0, to))
+      .map((s, i) => toTranslationItem(s, Math.max(0, from) + i))
+      .filter(item => !inBatch.has(item.id) && item.text.trim());
+    const items = ids.map(id => toTranslationItem(segments[id], id));
+    const before = around(first - TRANSLATION_CONTEXT_SIZE, first);
+    const after = around(last + 1, last + 1 + TRANSLATION_CONTEXT_SIZE);
+    // Only the terms that occur in this batch, to keep the prompt short
+    const terminology = describeGlossary(rulesInText(items.map(item => item.text), glossary));
+
+    const request: TranslationRequest = {
+      modelName,
+      items,
+      context: { before, after },
+      targetLanguage,
+      prompt: `Translate the "text" of each item into ${targetLanguage}.
+              Return exactly one entry per item with its "id" unchanged. Never merge, split, skip or reorder items, even when a sentence runs across several items.
+              Speaker labels and context lines are for reference only: do not translate or return the context lines.
+              ${terminology}
+              ${before.length > 0 ? `Context before: ${JSON.stringify(before)}` : ''}
+              Items: ${JSON.stringify(items)}
+              ${after.length > 0 ? `Context after: ${JSON.stringify(after)}` : ''}`,
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            segments: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  startTime: { type: Type.STRING },
-                  endTime: { type: Type.STRING },
-                  text: { type: Type.STRING },
-                  translatedText: { type: Type.STRING },
-                },
-                required: ["startTime", "endTime", "text", "translatedText"],
-              },
-            },
-          },
-        },
+        responseSchema: TRANSLATION_SCHEMA,
       },
-    });
+    };
 
-    let text = response.text;
-    if (!text) throw new Error("Empty translation response");
-    
-    text = text.trim();
-    if (text.startsWith('```json')) {
-      text = text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (text.startsWith('```')) {
-      text = text.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
+    const text = await withRetry(async () => {
+      const raw = await getActiveProvider().translate(request, signal);
+      if (!raw || !raw.trim()) throw new ModelRequestError('empty_response', "Empty translation response", { context });
+      return raw;
+    }, { signal, context, onRetry });
+    return acceptTranslations(parseTranslations(text), ids);
+  };
 
-    const parsed = JSON.parse(text);
-    return parsed.segments || [];
+  try {
+    for (let start = 0; start < pending.length; start += TRANSLATION_BATCH_SIZE) {
+      let batch = pending.slice(start, start + TRANSLATION_BATCH_SIZE);
+      // Translations that ignore the glossary are asked for again, and only used if no pass does better
+      const fallbacks = new Map<number, string>();
+      for (let pass = 1; pass <= TRANSLATION_PASSES && batch.length > 0; pass++) {
+        const accepted = await requestBatch(batch);
+        accepted.forEach((text, id) => {
+          if (segmentViolations(segments[id].text, text, glossary).length === 0) translations.set(id, text);
+          else fallbacks.set(id, text);
+        });
+        batch = batch.filter(id => !translations.has(id));
+        onProgress?.({ done: translations.size, total });
+        if (batch.length > 0) console.warn(`Translation pass ${pass}: ${batch.length} segment(s) missing, duplicated or off-glossary`);
+      }
+      fallbacks.forEach((text, id) => {
+        if (!translations.has(id)) translations.set(id, text);
+      });
+      onProgress?.({ done: translations.size, total });
+    }
   } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
     console.error("Translation error:", error);
-    throw error;
+    throw classifyError(error, context);
   }
+
+  return {
+    // A segment that failed this time loses any stale translation in the same language
+    segments: segments.map((segment, i) => withTranslation(segment, targetLanguage, translations.get(i))),
+    missing: pending.filter(i => !translations.has(i)),
+  };
 }
 
 export async function generateSpeech(text: string): Promise<string | undefined> {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: ["AUDIO"],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Zephyr' },
-          },
-        },
-      },
-    });
-
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    return await getActiveProvider().synthesizeSpeech(text);
   } catch (error) {
     console.error("TTS error:", error);
     throw error;
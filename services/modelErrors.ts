@@ -0,0 +1,105 @@
+
+/**
+ * Typed failures for model requests. Raw SDK / network errors are classified once here
+ * so callers can decide whether to retry and panes can show what to do about it.
+ */
+
+export type ModelErrorKind =
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'safety'
+  | 'payload_too_large'
+  | 'auth'
+  | 'not_found'
+  | 'bad_request'
+  | 'empty_response'
+  | 'invalid_response'
+  | 'unknown';
+
+const RETRYABLE_KINDS: ModelErrorKind[] = ['rate_limit', 'server', 'network', 'timeout', 'empty_response'];
+
+export interface ModelErrorContext {
+  modelName?: string;
+  operation?: 'transcription' | 'translation' | 'speech';
+}
+
+export class ModelRequestError extends Error {
+  readonly kind: ModelErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // Server-suggested delay, when the error carried one
+  readonly detail: string; // The original message, kept for logs and tooltips
+
+  constructor(kind: ModelErrorKind, detail: string, options: { status?: number; retryAfterMs?: number; context?: ModelErrorContext } = {}) {
+    super(describeModelError(kind, detail, options.context));
+    this.name = 'ModelRequestError';
+    this.kind = kind;
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.detail = detail;
+  }
+}
+
+/** Short, actionable text for each kind of failure. */
+export function describeModelError(kind: ModelErrorKind, detail: string, context: ModelErrorContext = {}): string {
+  const model = context.modelName ? `"${context.modelName}"` : 'this model';
+  switch (kind) {
+    case 'rate_limit': return 'Rate limit or quota reached — wait a minute and retry, or check the API key\'s quota and billing.';
+    case 'server': return `The model service is overloaded or unavailable — try again shortly or pick another model.`;
+    case 'network': return 'Network error — check your connection and retry.';
+    case 'timeout': return 'The request timed out — enable "Chunk long audio" so each request is shorter.';
+    case 'safety': return `Blocked by ${model}'s safety filters — this content can't be processed as-is.`;
+    case 'payload_too_large': return 'File too large for a single request — enable "Chunk long audio" or use a shorter file.';
+    case 'auth': return 'API key missing or invalid — check the API_KEY configuration.';
+    case 'not_found': return `Model ${model} not found — check the model id in the pane settings.`;
+    case 'bad_request': return `The request was rejected: ${detail}`;
+    case 'empty_response': return context.operation === 'translation'
+      ? 'The model returned an empty translation — try again.'
+      : 'The model returned an empty response — try again or switch model.';
+    case 'invalid_response': return context.operation === 'translation'
+      ? 'The translation could not be parsed — try again.'
+      : 'The response could not be parsed — try again, or enable chunking for long audio.';
+    default: return detail || 'Request failed';
+  }
+}
+
+// Google RPC error details put the suggested wait in a RetryInfo entry, e.g. "retryDelay": "37s"
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const statusFromMessage = (message: string): number | undefined => {
+  const match = message.match(/"code"\s*:\s*(\d{3})/) || message.match(/^\s*\[?(\d{3})\b/) || message.match(/got status:?\s*(\d{3})/i);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Maps any thrown value to a ModelRequestError. AbortErrors are returned untouched so
+ * cancellation keeps its own path through the callers.
+ */
+export function classifyError(error: any, context: ModelErrorContext = {}): Error {
+  if (error?.name === 'AbortError') return error;
+  if (error instanceof ModelRequestError) return error;
+
+  const message: string = String(error?.message ?? error ?? '');
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : statusFromMessage(message);
+  const retryAfterMs = parseRetryDelay(message);
+  const make = (kind: ModelErrorKind) => new ModelRequestError(kind, message, { status, retryAfterMs, context });
+  const has = (pattern: RegExp) => pattern.test(message);
+
+  if (status === 429 || has(/RESOURCE_EXHAUSTED|rate limit|quota/i)) return make('rate_limit');
+  if (status === 413 || has(/payload size|too large|exceeds the (maximum|limit)|request entity/i)) return make('payload_too_large');
+  if (status === 401 || status === 403 || has(/API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i)) return make('auth');
+  if (status === 404 || has(/NOT_FOUND|is not found for API version|models\/\S+ is not found/i)) return make('not_found');
+  if (status === 504 || has(/DEADLINE_EXCEEDED|timed? ?out/i)) return make('timeout');
+  if ((status !== undefined && status >= 500) || has(/UNAVAILABLE|INTERNAL|overloaded/i)) return make('server');
+  if (has(/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i)) return make('safety');
+  if (error instanceof TypeError && has(/fetch|network|load failed/i)) return make('network');
+  if (has(/Failed to fetch|NetworkError|ERR_NETWORK|ECONNRESET/i)) return make('network');
+  if (status === 400 || has(/INVALID_ARGUMENT/)) return make('bad_request');
+  return make('unknown');
+}
@@ -0,0 +1,79 @@
+
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { TranscriptionProvider } from "./types";
+import { ModelRequestError } from "../modelErrors";
+
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/**
+ * A blocked request comes back as a normal response with no text, so surface the
+ * block reason as a safety error instead of letting it look like an empty response.
+ */
+const responseText = (response: GenerateContentResponse, modelName: string): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ModelRequestError('safety', `Prompt blocked: ${blockReason}`, { context: { modelName } });
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const text = response.text || '';
+  if (!text && finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new ModelRequestError('safety', `Response blocked: ${finishReason}`, { context: { modelName } });
+  }
+  return text;
+};
+
+export const geminiProvider: TranscriptionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+
+  async *transcribeStream(request, signal) {
+    const stream = await ai.models.generateContentStream({
+      model: request.modelName,
+      contents: [
+        {
+          parts: [
+            {
+              inlineData: {
+                data: request.audioBase64,
+                mimeType: request.mimeType,
+              },
+            },
+            { text: request.prompt },
+          ],
+        },
+      ],
+      config: { ...request.config, abortSignal: signal },
+    });
+    for await (const chunk of stream) {
+      const text = responseText(chunk, request.modelName);
+      if (text) yield text;
+    }
+  },
+
+  async translate(request, signal) {
+    const response = await ai.models.generateContent({
+      model: request.modelName,
+      contents: [{ parts: [{ text: request.prompt }] }],
+      config: { ...request.config, abortSignal: signal },
+    });
+    return responseText(response, request.modelName);
+  },
+
+  async synthesizeSpeech(text) {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      contents: [{ parts: [{ text: text }] }],
+      config: {
+        responseModalities: ["AUDIO"],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: 'Zephyr' },
+          },
+        },
+      },
+    });
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  },
+};
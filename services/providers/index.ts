@@ -0,0 +1,26 @@
+
+import { TranscriptionProvider } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type { TranscriptionProvider, TranscriptionRequest, TranslationItem, TranslationRequest } from "./types";
+
+const PROVIDERS: TranscriptionProvider[] = [
+  geminiProvider,
+  createMockProvider('fixture'),
+  createMockProvider('truncated'),
+  createMockProvider('empty'),
+  createMockProvider('error'),
+];
+
+let activeProvider: TranscriptionProvider = geminiProvider;
+
+export const listProviders = (): TranscriptionProvider[] => PROVIDERS;
+
+export const getActiveProvider = (): TranscriptionProvider => activeProvider;
+
+export const setActiveProvider = (id: string): void => {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown provider: ${id}`);
+  activeProvider = provider;
+};
@@ -0,0 +1,116 @@
+
+import { TranscriptionProvider } from "./types";
+import { encodeBase64 } from "../../utils/audio";
+import { sleep } from "../retry";
+
+export type MockScenario = 'fixture' | 'truncated' | 'empty' | 'error';
+
+// Deliberately messy, the way real model output can be: mixed timestamp formats,
+// a comma decimal separator and a reset to zero mid-stream.
+const FIXTURE_SEGMENTS = [
+  { startTime: "00:00:00.042", endTime: "00:00:02.318", text: "Welcome back to the show.", speaker: "Speaker 1" },
+  { startTime: "00:00:02.512", endTime: "00:00:05.907", text: "Today we're talking about offline testing.", speaker: "Speaker 1" },
+  { startTime: "00:06.120", endTime: "00:09.455", text: "Thanks for having me, it's great to be here.", speaker: "Speaker 2" },
+  { startTime: "00:00:00.000", endTime: "00:00:02.871", text: "So, where should we start?", speaker: "Speaker 1" },
+  { startTime: "00:00:12,930", endTime: "00:00:16,204", text: "Let's start with the fixtures themselves.", speaker: "Speaker 2" },
+  { startTime: "00:00:16.380", endTime: "00:00:19.742", text: "They need to be deterministic, every single run.", speaker: "Speaker 2" },
+  { startTime: "00:00:20.015", endTime: "00:00:21.660", text: "Makes sense.", speaker: "Speaker 1" },
+];
+
+const LATENCY_MS = 400;
+// Streamed responses arrive in small pieces so partial rendering can be seen offline
+const STREAM_PIECE_CHARS = 96;
+const STREAM_PIECE_MS = 60;
+
+/**
+ * Spreads each fixture line's duration evenly over its words.
+ */
+const toWordSegments = (segments: typeof FIXTURE_SEGMENTS) => {
+  const toSeconds = (ts: string) => {
+    const parts = ts.replace(',', '.').split(':').map(parseFloat);
+    return parts.reduce((acc, p) => acc * 60 + p, 0);
+  };
+  const format = (sec: number) => {
+    const ms = Math.round(sec * 1000);
+    const h = Math.floor(ms / 3600000);
+    const m = Math.floor((ms % 3600000) / 60000);
+    const s = Math.floor((ms % 60000) / 1000);
+    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(ms % 1000).padStart(3, '0')}`;
+  };
+
+  return segments.flatMap(seg => {
+    const words = seg.text.split(/\s+/);
+    const start = toSeconds(seg.startTime);
+    const step = (toSeconds(seg.endTime) - start) / words.length;
+    return words.map((text, i) => ({
+      startTime: format(start + i * step),
+      endTime: format(start + (i + 1) * step),
+      text,
+      speaker: seg.speaker,
+    }));
+  });
+};
+
+/**
+ * Cuts a JSON document off partway through a segment object, like a response
+ * that hit the output token limit.
+ */
+const truncate = (json: string): string => {
+  const cut = json.lastIndexOf('"text"');
+  return json.substring(0, cut + 12);
+};
+
+const respond = (body: string, scenario: MockScenario): string => {
+  switch (scenario) {
+    case 'truncated': return truncate(body);
+    case 'empty': return '';
+    case 'error': throw new Error("503 UNAVAILABLE: The model is overloaded. Please try again later. (mock)");
+    default: return body;
+  }
+};
+
+/**
+ * One short 440Hz tone as 24kHz 16-bit PCM, standing in for synthesized speech.
+ */
+const beep = (): string => {
+  const sampleRate = 24000;
+  const samples = new Int16Array(sampleRate / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 0.2 * 0x7fff);
+  }
+  return encodeBase64(new Uint8Array(samples.buffer));
+};
+
+/**
+ * A deterministic, network-free provider returning fixture data. Each scenario
+ * exercises a different part of the post-processing pipeline.
+ */
+export const createMockProvider = (scenario: MockScenario): TranscriptionProvider => ({
+  id: `mock-${scenario}`,
+  label: `Offline mock (${scenario})`,
+
+  async *transcribeStream(request, signal) {
+    await sleep(LATENCY_MS, signal);
+    const segments = request.granularity === 'word' ? toWordSegments(FIXTURE_SEGMENTS) : FIXTURE_SEGMENTS;
+    // Wrap in a markdown fence as models sometimes do
+    const body = respond("```json\n" + JSON.stringify({ segments }, null, 2) + "\n```", scenario);
+    for (let i = 0; i < body.length; i += STREAM_PIECE_CHARS) {
+      if (i > 0) await sleep(STREAM_PIECE_MS, signal);
+      yield body.slice(i, i + STREAM_PIECE_CHARS);
+    }
+  },
+
+  async translate(request, signal) {
+    await sleep(LATENCY_MS, signal);
+    // A cut-off translation loses its last item; re-requests of a single item come back whole
+    const items = scenario === 'truncated' && request.items.length > 1 ? request.items.slice(0, -1) : request.items;
+    const translations = items.map(item => ({ id: item.id, translatedText: `[${request.targetLanguage}] ${item.text}` }));
+    const body = JSON.stringify({ translations }, null, 2);
+    return scenario === 'truncated' ? body : respond(body, scenario);
+  },
+
+  async synthesizeSpeech() {
+    if (scenario === 'error') throw new Error("503 UNAVAILABLE: TTS is unavailable. (mock)");
+    return beep();
+  },
+});
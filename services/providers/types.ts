@@ -0,0 +1,41 @@
+
+export interface TranscriptionRequest {
+  modelName: string;
+  audioBase64: string;
+  mimeType: string;
+  granularity: 'line' | 'word';
+  prompt: string;
+  config: Record<string, any>; // Generation config incl. responseSchema
+}
+
+/** One segment sent for translation, keyed by its index in the full transcript. */
+export interface TranslationItem {
+  id: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface TranslationRequest {
+  modelName: string;
+  items: TranslationItem[];
+  // Neighbouring segments outside the batch, for reference only
+  context: { before: TranslationItem[]; after: TranslationItem[] };
+  targetLanguage: string;
+  prompt: string;
+  config: Record<string, any>;
+}
+
+/**
+ * A transcription backend. Providers only talk to their service and return the
+ * raw model text; fence stripping, JSON repair and monotonicity fixes are shared
+ * and applied by geminiService on top of whatever a provider returns.
+ * Transcription is streamed: the concatenated chunks form the full response text.
+ */
+export interface TranscriptionProvider {
+  readonly id: string;
+  readonly label: string;
+  transcribeStream(request: TranscriptionRequest, signal?: AbortSignal): AsyncIterable<string>;
+  translate(request: TranslationRequest, signal?: AbortSignal): Promise<string>;
+  /** Returns base64 16-bit PCM at 24kHz mono. */
+  synthesizeSpeech(text: string): Promise<string | undefined>;
+}
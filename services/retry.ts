@@ -0,0 +1,80 @@
+
+import { ModelErrorContext, ModelRequestError, classifyError } from "./modelErrors";
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  context?: ModelErrorContext;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface RetryInfo {
+  attempt: number; // The attempt that just failed, 1-based
+  maxAttempts: number;
+  delayMs: number;
+  error: ModelRequestError;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with full jitter: a random wait in [0, base * 2^(attempt-1)], capped.
+ * A server-suggested delay (429 RetryInfo) takes precedence when it is longer.
+ */
+export const backoffDelay = (attempt: number, error: ModelRequestError, baseDelayMs: number, maxDelayMs: number): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.random() * exponential;
+  return Math.min(maxDelayMs, Math.max(jittered, error.retryAfterMs ?? 0));
+};
+
+/**
+ * Runs `request`, retrying transient failures. Errors are classified into ModelRequestError;
+ * non-retryable ones are thrown at once, and an abort stops both the request and any wait.
+ */
+export async function withRetry<T>(request: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    signal,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    context,
+    onRetry,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+    try {
+      return await request(attempt);
+    } catch (raw: any) {
+      const error = classifyError(raw, context);
+      if (!(error instanceof ModelRequestError)) throw error; // AbortError
+      if (signal?.aborted) throw abortError();
+      if (!error.retryable || attempt >= maxAttempts) throw error;
+
+      const delayMs = backoffDelay(attempt, error, baseDelayMs, maxDelayMs);
+      console.warn(`Attempt ${attempt}/${maxAttempts} failed (${error.kind}), retrying in ${Math.round(delayMs)}ms:`, error.detail);
+      onRetry?.({ attempt, maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,253 @@
+
+import { SessionSnapshot, SessionSummary } from "../types";
+import { upgradeLegacyTranslations } from "../utils/translations";
+
+/**
+ * Local session history backed by IndexedDB. Listing entries, transcript data and audio
+ * live in separate object stores so the sidebar can list sessions without loading blobs.
+ */
+
+const DB_NAME = "gemini-transcription-lab";
+const DB_VERSION = 1;
+const SUMMARY_STORE = "sessions";
+const DATA_STORE = "sessionData";
+const AUDIO_STORE = "audio";
+
+// Cleanup starts once tracked usage passes the soft limit and frees space down to the target
+const QUOTA_SOFT_LIMIT = 0.8;
+const QUOTA_TARGET = 0.6;
+
+export interface StoredSession {
+  summary: SessionSummary;
+  snapshot: SessionSnapshot;
+  audio: Blob | null;
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes used by the whole origin, as reported by the browser
+  quota: number;
+  sessionBytes: number; // Bytes accounted to stored sessions
+  persisted: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException("Transaction aborted", "AbortError"));
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const createSessionId = (): string =>
+  `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isQuotaError = (error: any): boolean =>
+  error?.name === "QuotaExceededError" || error?.code === 22;
+
+/**
+ * Drops transient UI state before writing. Panes that were still running are stored with
+ * whatever segments had arrived, so reopening them never shows a spinner with no request behind it.
+ */
+const toStorableSnapshot = (snapshot: SessionSnapshot): SessionSnapshot => ({
+  ...snapshot,
+  results: Object.fromEntries(
+    Object.entries(snapshot.results).map(([id, result]) => [
+      id,
+      {
+        ...result,
+        loading: false,
+        translating: false,
+        translationProgress: undefined,
+        notice: result.loading ? undefined : result.notice,
+        error: result.loading ? (result.error || "Interrupted") : result.error,
+      },
+    ])
+  ),
+});
+
+const buildSummary = (
+  id: string,
+  name: string,
+  snapshot: SessionSnapshot,
+  audioBytes: number,
+  createdAt: number
+): SessionSummary => {
+  const results = Object.values(snapshot.results);
+  return {
+    id,
+    name,
+    createdAt,
+    updatedAt: Date.now(),
+    fileName: snapshot.audio?.fileName,
+    bytes: audioBytes + JSON.stringify(snapshot).length * 2,
+    paneCount: snapshot.panes.length,
+    segmentCount: results.reduce((sum, r) => sum + r.segments.length, 0),
+  };
+};
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARY_STORE, "readonly");
+  const summaries = await requestToPromise(tx.objectStore(SUMMARY_STORE).getAll() as IDBRequest<SessionSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadSession(id: string): Promise<StoredSession | null> {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE, AUDIO_STORE], "readonly");
+  const [summary, snapshot, audio] = await Promise.all([
+    requestToPromise(tx.objectStore(SUMMARY_STORE).get(id) as IDBRequest<SessionSummary | undefined>),
+    requestToPromise(tx.objectStore(DATA_STORE).get(id) as IDBRequest<SessionSnapshot | undefined>),
+    requestToPromise(tx.objectStore(AUDIO_STORE).get(id) as IDBRequest<Blob | undefined>),
+  ]);
+  if (!summary || !snapshot) return null;
+  // Sessions saved before translations were keyed by language are upgraded on read
+  return { summary, snapshot: upgradeLegacyTranslations(snapshot), audio: audio || null };
+}
+
+/**
+ * Writes a session. `audio` is only rewritten when given; pass `undefined` to keep the stored
+ * blob and `null` to remove it. A quota error triggers one cleanup pass and a retry.
+ */
+export async function saveSession(
+  id: string,
+  name: string,
+  snapshot: SessionSnapshot,
+  audio?: Blob | null
+): Promise<SessionSummary> {
+  const write = async () => {
+    const db = await openDb();
+    const tx = db.transaction([SUMMARY_STORE, DATA_STORE, AUDIO_STORE], "readwrite");
+    const summaries = tx.objectStore(SUMMARY_STORE);
+    const audioStore = tx.objectStore(AUDIO_STORE);
+
+    const existing = await requestToPromise(summaries.get(id) as IDBRequest<SessionSummary | undefined>);
+    let audioBytes: number;
+    if (audio === undefined) {
+      const stored = await requestToPromise(audioStore.get(id) as IDBRequest<Blob | undefined>);
+      audioBytes = stored?.size ?? 0;
+    } else if (audio === null) {
+      audioStore.delete(id);
+      audioBytes = 0;
+    } else {
+      audioStore.put(audio, id);
+      audioBytes = audio.size;
+    }
+
+    const storable = toStorableSnapshot(snapshot);
+    const summary = buildSummary(id, name, storable, audioBytes, existing?.createdAt ?? Date.now());
+    summaries.put(summary);
+    tx.objectStore(DATA_STORE).put(storable, id);
+    await transactionDone(tx);
+    return summary;
+  };
+
+  try {
+    return await write();
+  } catch (error: any) {
+    if (!isQuotaError(error)) throw error;
+    await cleanupSessions([id], true);
+    return write();
+  }
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARY_STORE, "readwrite");
+  const store = tx.objectStore(SUMMARY_STORE);
+  const summary = await requestToPromise(store.get(id) as IDBRequest<SessionSummary | undefined>);
+  if (summary) store.put({ ...summary, name });
+  await transactionDone(tx);
+}
+
+export async function duplicateSession(id: string): Promise<SessionSummary> {
+  const stored = await loadSession(id);
+  if (!stored) throw new Error("Session not found");
+  return saveSession(createSessionId(), `${stored.summary.name} (copy)`, stored.snapshot, stored.audio);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE, AUDIO_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const sessions = await listSessions();
+  const sessionBytes = sessions.reduce((sum, s) => sum + s.bytes, 0);
+  const storage = typeof navigator !== "undefined" ? navigator.storage : undefined;
+  const estimate = storage?.estimate ? await storage.estimate() : {};
+  const persisted = storage?.persisted ? await storage.persisted() : false;
+  return {
+    usage: estimate.usage ?? sessionBytes,
+    quota: estimate.quota ?? 0,
+    sessionBytes,
+    persisted,
+  };
+}
+
+/** Asks the browser not to evict our data under storage pressure. Browsers may silently refuse. */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
+
+/**
+ * Quota-aware cleanup: once usage passes the soft limit, deletes the least recently updated
+ * sessions (never those in `keep`) until usage is back under the target. `force` is used after
+ * a failed write, when the estimate can look fine, and always removes at least one session.
+ * Returns the removed sessions.
+ */
+export async function cleanupSessions(keep: string[] = [], force: boolean = false): Promise<SessionSummary[]> {
+  const { usage, quota } = await getStorageUsage();
+  const overLimit = quota > 0 && usage > quota * QUOTA_SOFT_LIMIT;
+  if (!overLimit && !force) return [];
+
+  const toFree = quota > 0 ? Math.max(0, usage - quota * QUOTA_TARGET) : 0;
+  const candidates = (await listSessions())
+    .filter(s => !keep.includes(s.id))
+    .sort((a, b) => a.updatedAt - b.updatedAt);
+
+  const removed: SessionSummary[] = [];
+  let freed = 0;
+  for (const session of candidates) {
+    if (freed >= toFree && (removed.length > 0 || !force)) break;
+    await deleteSession(session.id);
+    removed.push(session);
+    freed += session.bytes;
+  }
+  return removed;
+}
@@ -3,7 +3,23 @@ export interface TranscriptionSegment {
   startTime: string; // Format like "00:00:00" or seconds
   endTime: string;
   text: string;
-  translatedText?: string;
+  translations?: Record<string, string>; // Keyed by target language, e.g. { Japanese: "...", Spanish: "..." }
+  speaker?: string; // Diarization label, e.g. "Speaker 1" or a user-assigned name
+}
+
+export type ChunkStatus = 'pending' | 'working' | 'done' | 'error';
+
+export interface ChunkProgress {
+  index: number;
+  startSec: number;
+  endSec: number;
+  status: ChunkStatus;
+  error?: string;
+}
+
+export interface TranslationProgress {
+  done: number; // Segments translated and validated so far
+  total: number;
 }
 
 export interface TranscriptionResult {
@@ -12,6 +28,34 @@ export interface TranscriptionResult {
   error?: string;
   loading: boolean;
   translating?: boolean;
+  translationProgress?: TranslationProgress;
+  chunks?: ChunkProgress[];
+  importedFrom?: string; // File name when segments were loaded from a subtitle file
+  granularity?: Granularity;
+  notice?: string; // Transient status or a non-fatal failure, e.g. a retry in progress or a failed translation
+}
+
+/** Per-pane knobs passed through to the transcription request. */
+export interface GenerationSettings {
+  temperature: number;
+  thinkingBudget?: number; // Unset uses the model default (2048 for Gemini 3, off otherwise)
+  instructions?: string; // Appended to the prompt, e.g. spelling hints or a style variant
+}
+
+export type Granularity = 'line' | 'word';
+
+/** One comparison pane: which model runs and how. Results are stored separately, keyed by `id`. */
+export interface PaneConfig {
+  id: string;
+  modelName: string;
+  granularity: Granularity;
+  settings: GenerationSettings;
+  shownLanguages?: string[]; // Translations displayed under each segment, at most two
+}
+
+export interface ReferenceTranscript {
+  fileName: string;
+  text: string;
 }
 
 export interface AudioFileData {
@@ -19,4 +63,57 @@ export interface AudioFileData {
   mimeType: string;
   fileName: string;
   previewUrl: string;
+  reference?: ReferenceTranscript; // Ground truth used for WER/CER scoring
+}
+
+/**
+ * A window of the source audio sent to the model as its own request.
+ * `start`/`end` bound the audio actually sent (including overlap), while
+ * `ownStart`/`ownEnd` bound the region whose segments this chunk is
+ * responsible for when results are stitched back together.
+ */
+export interface AudioChunk {
+  index: number;
+  start: number;
+  end: number;
+  ownStart: number;
+  ownEnd: number;
+  base64: string;
+  mimeType: string;
+}
+
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+/** Translation terminology, stored with the session. */
+export interface Glossary {
+  terms: Record<string, GlossaryTerm[]>; // Keyed by target language, e.g. "Indonesian"
+  doNotTranslate: string[]; // Kept verbatim in every language
+}
+
+/**
+ * Everything needed to restore a working session apart from the audio bytes,
+ * which are stored (or bundled) separately as a Blob.
+ */
+export interface SessionSnapshot {
+  audio: Omit<AudioFileData, 'base64' | 'previewUrl'> | null;
+  panes: PaneConfig[];
+  results: Record<string, TranscriptionResult>;
+  targetLang: string;
+  sourceLang?: string; // Language spoken in the audio, when the user set it
+  glossary?: Glossary; // Absent in sessions saved before glossaries existed
+}
+
+/** Lightweight listing entry for the history sidebar; `bytes` covers audio plus transcript data. */
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  fileName?: string;
+  bytes: number;
+  paneCount: number;
+  segmentCount: number;
 }
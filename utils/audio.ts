@@ -1,3 +1,4 @@
+import { AudioChunk } from "../types";
 
 export function decodeBase64(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -27,3 +28,208 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+}
+
+/** Reads a Blob into bare base64 (no data: URL prefix), the form kept in `AudioFileData`. */
+export function readBlobAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// 16kHz mono is plenty for speech and keeps each chunk well under the inline payload limit.
+const CHUNK_SAMPLE_RATE = 16000;
+
+/**
+ * Decodes an encoded audio file (mp3, wav, m4a...) with Web Audio,
+ * resampled to the given rate.
+ */
+export async function decodeAudioFile(base64: string, sampleRate: number = CHUNK_SAMPLE_RATE): Promise<AudioBuffer> {
+  const bytes = decodeBase64(base64);
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  return ctx.decodeAudioData(bytes.buffer as ArrayBuffer);
+}
+
+/**
+ * Averages all channels into a single mono signal.
+ */
+export function mixToMono(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Encodes mono float samples as a 16-bit PCM WAV file.
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return bytes;
+}
+
+/**
+ * Returns the time (seconds) of the quietest 50ms frame between `from` and `to`.
+ */
+function findQuietestPoint(samples: Float32Array, sampleRate: number, from: number, to: number): number {
+  const frameSize = Math.round(sampleRate * 0.05);
+  const startSample = Math.max(0, Math.floor(from * sampleRate));
+  const endSample = Math.min(samples.length - frameSize, Math.floor(to * sampleRate));
+
+  let bestEnergy = Infinity;
+  let bestSample = Math.floor(to * sampleRate);
+  for (let i = startSample; i <= endSample; i += frameSize) {
+    let energy = 0;
+    for (let j = i; j < i + frameSize; j++) energy += samples[j] * samples[j];
+    // Prefer later frames on ties so chunks stay close to the target length
+    if (energy <= bestEnergy) {
+      bestEnergy = energy;
+      bestSample = i + Math.floor(frameSize / 2);
+    }
+  }
+  return bestSample / sampleRate;
+}
+
+export interface ChunkOptions {
+  chunkSeconds: number;    // Target length of each chunk
+  overlapSeconds: number;  // Audio shared with each neighbour
+  searchSeconds: number;   // How far back from the target to look for a silence
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  chunkSeconds: 300,
+  overlapSeconds: 4,
+  searchSeconds: 30,
+};
+
+/**
+ * Wraps the untouched source file as a single chunk covering everything.
+ */
+export function wholeFileChunk(base64: string, mimeType: string): AudioChunk {
+  return { index: 0, start: 0, end: Infinity, ownStart: 0, ownEnd: Infinity, base64, mimeType };
+}
+
+/**
+ * Splits audio into overlapping windows, cutting at the quietest point near each
+ * target boundary. Short files (or formats the browser cannot decode) are returned
+ * as a single chunk with the original encoding.
+ */
+export async function prepareAudioChunks(
+  base64: string,
+  mimeType: string,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): Promise<AudioChunk[]> {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudioFile(base64);
+  } catch (e) {
+    console.warn("Could not decode audio for chunking, sending whole file:", e);
+    return [wholeFileChunk(base64, mimeType)];
+  }
+
+  const duration = buffer.duration;
+  if (duration <= options.chunkSeconds + options.overlapSeconds) {
+    // ownEnd stays open: a last word timed past the decoded end must not be dropped
+    return [{ ...wholeFileChunk(base64, mimeType), end: duration }];
+  }
+
+  const samples = mixToMono(buffer);
+  const sampleRate = buffer.sampleRate;
+
+  const boundaries = [0];
+  let last = 0;
+  while (duration - last > options.chunkSeconds + options.overlapSeconds) {
+    const target = last + options.chunkSeconds;
+    last = findQuietestPoint(samples, sampleRate, target - options.searchSeconds, target);
+    boundaries.push(last);
+  }
+  boundaries.push(duration);
+
+  const chunks: AudioChunk[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = Math.max(0, boundaries[i] - options.overlapSeconds);
+    const end = Math.min(duration, boundaries[i + 1] + options.overlapSeconds);
+    const slice = samples.subarray(Math.floor(start * sampleRate), Math.ceil(end * sampleRate));
+    chunks.push({
+      index: i,
+      start,
+      end,
+      ownStart: boundaries[i],
+      // The final chunk owns everything after its start, including timestamps that overshoot the file
+      ownEnd: i === boundaries.length - 2 ? Infinity : boundaries[i + 1],
+      base64: encodeBase64(encodeWav(slice, sampleRate)),
+      mimeType: 'audio/wav',
+    });
+  }
+  return chunks;
+}
+
+/** Peak amplitudes at a fixed rate, enough to draw a waveform at any zoom level. */
+export interface WaveformData {
+  peaks: Float32Array;    // Largest absolute sample in each bucket, 0..1
+  peaksPerSecond: number;
+  duration: number;
+}
+
+// 8kHz keeps decoding long files cheap; the waveform only needs the envelope
+const WAVEFORM_SAMPLE_RATE = 8000;
+const WAVEFORM_PEAKS_PER_SECOND = 200;
+
+/**
+ * Decodes the audio and reduces it to peaks for the timeline.
+ */
+export async function loadWaveform(base64: string): Promise<WaveformData> {
+  const buffer = await decodeAudioFile(base64, WAVEFORM_SAMPLE_RATE);
+  const samples = mixToMono(buffer);
+  const bucketSize = Math.max(1, Math.round(buffer.sampleRate / WAVEFORM_PEAKS_PER_SECOND));
+  const peaks = new Float32Array(Math.ceil(samples.length / bucketSize));
+  for (let b = 0; b < peaks.length; b++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (b + 1) * bucketSize);
+    for (let i = b * bucketSize; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[b] = Math.min(1, peak);
+  }
+  return { peaks, peaksPerSecond: buffer.sampleRate / bucketSize, duration: buffer.duration };
+}
@@ -0,0 +1,228 @@
+
+import { TranscriptionSegment } from "../types";
+import { timestampToSeconds } from "../services/geminiService";
+
+export interface DiffToken {
+  text: string;
+  norm: string;
+  time: number;      // Estimated start time in seconds
+  segIndex: number;
+}
+
+export type DiffOpType = 'equal' | 'substitute' | 'delete' | 'insert';
+
+/**
+ * One step of the alignment. `a` comes from the left transcript, `b` from the right;
+ * 'delete' only has `a` (missing on the right), 'insert' only has `b`.
+ */
+export interface DiffOp {
+  type: DiffOpType;
+  a?: DiffToken;
+  b?: DiffToken;
+}
+
+export interface DiffStats {
+  equal: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  agreement: number;         // 0..1, matched words over all aligned positions
+  meanTimingOffset: number;  // Mean |Δt| in seconds across matched words
+}
+
+export interface TranscriptDiff {
+  ops: DiffOp[];
+  stats: DiffStats;
+}
+
+// Only words this close in time are considered for alignment, which keeps the
+// DP to a narrow band instead of the full N×M table.
+const ALIGN_WINDOW_SECONDS = 15;
+
+const CJK_CHAR = /[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]/;
+
+export const normalizeWord = (word: string): string => {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']+/gu, '');
+};
+
+/**
+ * Splits segments into words, estimating each word's start time by its character
+ * offset within the segment. Word-granularity segments keep their exact times.
+ * CJK text is split per character since it has no spaces.
+ */
+export const tokenizeSegments = (segments: TranscriptionSegment[]): DiffToken[] => {
+  const tokens: DiffToken[] = [];
+
+  segments.forEach((seg, segIndex) => {
+    const start = timestampToSeconds(seg.startTime);
+    const end = timestampToSeconds(seg.endTime);
+    const text = seg.text;
+    const length = Math.max(1, text.length);
+
+    const wordRegex = /[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]|[^\s\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]+/g;
+    let match;
+    while ((match = wordRegex.exec(text)) !== null) {
+      const norm = CJK_CHAR.test(match[0]) ? match[0] : normalizeWord(match[0]);
+      if (!norm) continue;
+      tokens.push({
+        text: match[0],
+        norm,
+        time: start + (end - start) * (match.index / length),
+        segIndex,
+      });
+    }
+  });
+  return tokens;
+};
+
+export interface AlignStep {
+  type: DiffOpType;
+  i: number;  // Index into the first sequence, -1 for insertions
+  j: number;  // Index into the second sequence, -1 for deletions
+}
+
+/**
+ * Levenshtein alignment restricted to a band: row i (the first i keys of `a`) only
+ * considers columns lo[i]..hi[i]. Bands are widened where needed so a path always exists.
+ */
+export const bandedAlign = (a: string[], b: string[], lo: Int32Array, hi: Int32Array): AlignStep[] => {
+  const n = a.length;
+  const m = b.length;
+
+  lo[0] = 0;
+  hi[n] = m;
+  // Keep consecutive bands overlapping so a path always exists
+  for (let i = 1; i <= n; i++) {
+    lo[i] = Math.min(lo[i], hi[i - 1]);
+    hi[i] = Math.max(hi[i], lo[i], hi[i - 1]);
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    hi[i] = Math.min(hi[i], hi[i + 1]);
+    lo[i] = Math.min(lo[i], hi[i]);
+  }
+
+  // cost[i] holds the band for row i; back[i] stores 0 = diagonal, 1 = up (delete), 2 = left (insert)
+  const cost: Int32Array[] = [];
+  const back: Uint8Array[] = [];
+  const INF = 1 << 29;
+  const at = (i: number, j: number) => (i < 0 || j < lo[i] || j > hi[i]) ? INF : cost[i][j - lo[i]];
+
+  for (let i = 0; i <= n; i++) {
+    const width = hi[i] - lo[i] + 1;
+    const rowCost = new Int32Array(width);
+    const rowBack = new Uint8Array(width);
+    cost.push(rowCost);
+    back.push(rowBack);
+
+    for (let k = 0; k < width; k++) {
+      const j = lo[i] + k;
+      if (i === 0 && j === 0) { rowCost[k] = 0; continue; }
+
+      let best = INF;
+      let dir = 0;
+      if (i > 0 && j > 0) {
+        const c = at(i - 1, j - 1) + (a[i - 1] === b[j - 1] ? 0 : 1);
+        if (c < best) { best = c; dir = 0; }
+      }
+      if (i > 0) {
+        const c = at(i - 1, j) + 1;
+        if (c < best) { best = c; dir = 1; }
+      }
+      if (k > 0) {
+        const c = rowCost[k - 1] + 1;
+        if (c < best) { best = c; dir = 2; }
+      }
+      rowCost[k] = best;
+      rowBack[k] = dir;
+    }
+  }
+
+  const steps: AlignStep[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const dir = back[i][j - lo[i]];
+    if (i > 0 && j > 0 && dir === 0) {
+      steps.push({ type: a[i - 1] === b[j - 1] ? 'equal' : 'substitute', i: i - 1, j: j - 1 });
+      i--; j--;
+    } else if (i > 0 && (dir === 1 || j === 0)) {
+      steps.push({ type: 'delete', i: i - 1, j: -1 });
+      i--;
+    } else {
+      steps.push({ type: 'insert', i: -1, j: j - 1 });
+      j--;
+    }
+  }
+  return steps.reverse();
+};
+
+/**
+ * A band following the proportional diagonal, for sequences without timing.
+ */
+export const proportionalBand = (n: number, m: number, halfWidth: number): { lo: Int32Array; hi: Int32Array } => {
+  const lo = new Int32Array(n + 1);
+  const hi = new Int32Array(n + 1);
+  for (let i = 0; i <= n; i++) {
+    const center = n > 0 ? Math.round((i / n) * m) : m;
+    lo[i] = Math.max(0, center - halfWidth);
+    hi[i] = Math.min(m, center + halfWidth);
+  }
+  return { lo, hi };
+};
+
+/**
+ * Aligns two token sequences, only pairing words that are close in time.
+ */
+export const alignTokens = (a: DiffToken[], b: DiffToken[]): DiffOp[] => {
+  const n = a.length;
+  const m = b.length;
+
+  // Row i (tokens a[0..i)) may only align against b tokens near a[i-1] in time
+  const lo = new Int32Array(n + 1);
+  const hi = new Int32Array(n + 1);
+  let loPtr = 0;
+  let hiPtr = 0;
+  for (let i = 1; i <= n; i++) {
+    const t = a[i - 1].time;
+    while (loPtr < m && b[loPtr].time < t - ALIGN_WINDOW_SECONDS) loPtr++;
+    while (hiPtr < m && b[hiPtr].time <= t + ALIGN_WINDOW_SECONDS) hiPtr++;
+    lo[i] = loPtr;
+    hi[i] = hiPtr;
+  }
+  hi[0] = n > 0 ? lo[1] : m;
+
+  return bandedAlign(a.map(t => t.norm), b.map(t => t.norm), lo, hi).map(step => ({
+    type: step.type,
+    a: step.i >= 0 ? a[step.i] : undefined,
+    b: step.j >= 0 ? b[step.j] : undefined,
+  }));
+};
+
+export const diffTranscripts = (left: TranscriptionSegment[], right: TranscriptionSegment[]): TranscriptDiff => {
+  const ops = alignTokens(tokenizeSegments(left), tokenizeSegments(right));
+
+  let equal = 0, substitutions = 0, deletions = 0, insertions = 0, offsetSum = 0;
+  for (const op of ops) {
+    switch (op.type) {
+      case 'equal':
+        equal++;
+        offsetSum += Math.abs(op.b!.time - op.a!.time);
+        break;
+      case 'substitute': substitutions++; break;
+      case 'delete': deletions++; break;
+      case 'insert': insertions++; break;
+    }
+  }
+
+  return {
+    ops,
+    stats: {
+      equal,
+      substitutions,
+      deletions,
+      insertions,
+      agreement: ops.length > 0 ? equal / ops.length : 1,
+      meanTimingOffset: equal > 0 ? offsetSum / equal : 0,
+    },
+  };
+};
@@ -1,5 +1,9 @@
 
 import { TranscriptionSegment } from "../types";
+import { listSpeakers } from "./speakers";
+import { segmentText } from "./translations";
+import { languageTag } from "./languages";
+import { SegmentationConstraints, groupIntoCues, lineStarts, resegment, wrapLines } from "./segmentation";
 
 /**
  * Robustly parses various timestamp formats into total seconds.
@@ -71,6 +75,10 @@ const formatTimestampForTTML = (ts: string): string => {
   return clean;
 };
 
+const formatSecondsToVTT = (totalSeconds: number): string => {
+  return formatSecondsToSRT(totalSeconds).replace(',', '.');
+};
+
 const escapeXml = (unsafe: string): string => {
   return unsafe.replace(/[<>&'"]/g, (c) => {
     switch (c) {
@@ -84,6 +92,17 @@ const escapeXml = (unsafe: string): string => {
   });
 };
 
+const escapeVtt = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+/**
+ * Prefixes cue text with a WebVTT voice span when the speaker is known.
+ */
+const withVoice = (text: string, speaker?: string): string => {
+  return speaker ? `<v ${speaker.replace(/[<>&]/g, '')}>${text}` : text;
+};
+
 const isCJK = (text: string): boolean => {
   return /[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]/.test(text);
 };
@@ -100,28 +119,67 @@ export const downloadFile = (content: string, filename: string) => {
   URL.revokeObjectURL(url);
 };
 
-export const exportAsTXT = (segments: TranscriptionSegment[], type: 'original' | 'translated'): string => {
-  return segments.map(s => {
-    return type === 'translated' ? (s.translatedText || '') : s.text;
+/** The segments as cues: rebuilt to fit `segmentation` when given, otherwise as transcribed. */
+const toCues = (segments: TranscriptionSegment[], language: string | null, segmentation?: SegmentationConstraints): TranscriptionSegment[] =>
+  segmentation ? resegment(segments, segmentation, language) : segments;
+
+/** Bilingual cues carry one line per language, so each language gets a single line. */
+const singleLine = (segmentation?: SegmentationConstraints): SegmentationConstraints | undefined =>
+  segmentation && { ...segmentation, maxLines: 1 };
+
+/**
+ * Indexes of the words in a word-level cue that start a new line. Without segmentation
+ * the cue stays on one line.
+ */
+const wordLineStarts = (words: string[], segmentation?: SegmentationConstraints): Set<number> => {
+  if (!segmentation || words.length === 0) return new Set();
+  const tokens = words.map((w, i) => i > 0 && !isCJK(w) ? ` ${w}` : w);
+  return new Set(lineStarts(tokens, segmentation.maxCharsPerLine, segmentation.maxLines).slice(1));
+};
+
+export const exportAsTXT = (segments: TranscriptionSegment[], language: string | null, segmentation?: SegmentationConstraints): string => {
+  return toCues(segments, language, segmentation).map(s => {
+    const text = segmentText(s, language);
+    return s.speaker ? `${s.speaker}: ${text}` : text;
   }).join('\n\n');
 };
 
-export const exportAsSRT = (segments: TranscriptionSegment[], type: 'original' | 'translated'): string => {
-  return segments.map((s, i) => {
-    const text = type === 'translated' ? (s.translatedText || '') : s.text;
+export const exportAsSRT = (segments: TranscriptionSegment[], language: string | null, segmentation?: SegmentationConstraints): string => {
+  return toCues(segments, language, segmentation).map((s, i) => {
+    const text = segmentText(s, language);
     const start = formatSecondsToSRT(parseTimestampToSeconds(s.startTime));
     const end = formatSecondsToSRT(parseTimestampToSeconds(s.endTime));
     return `${i + 1}\n${start} --> ${end}\n${text}\n`;
   }).join('\n');
 };
 
-export const exportAsLRC = (segments: TranscriptionSegment[], type: 'original' | 'translated', totalDuration?: number): string => {
+/** Two texts shown together; `top` is drawn above `bottom`. null stands for the original transcript. */
+export interface BilingualTracks {
+  top: string | null;
+  bottom: string | null;
+}
+
+/** Both lines of a bilingual cue, top first; a side with no text for this segment is dropped. */
+const bilingualLines = (s: TranscriptionSegment, tracks: BilingualTracks): string[] =>
+  [segmentText(s, tracks.top), segmentText(s, tracks.bottom)].map(t => t.replace(/[\r\n]+/g, ' ').trim()).filter(Boolean);
+
+/** SRT with the two languages stacked in each cue. */
+export const exportAsBilingualSRT = (segments: TranscriptionSegment[], tracks: BilingualTracks, segmentation?: SegmentationConstraints): string => {
+  return toCues(segments, tracks.top, singleLine(segmentation)).map((s, i) => {
+    const start = formatSecondsToSRT(parseTimestampToSeconds(s.startTime));
+    const end = formatSecondsToSRT(parseTimestampToSeconds(s.endTime));
+    return `${i + 1}\n${start} --> ${end}\n${bilingualLines(s, tracks).join('\n')}\n`;
+  }).join('\n');
+};
+
+export const exportAsLRC = (segments: TranscriptionSegment[], language: string | null, totalDuration?: number, segmentation?: SegmentationConstraints): string => {
   const lines: string[] = [];
+  const cues = toCues(segments, language, segmentation);
   
-  for (let i = 0; i < segments.length; i++) {
-    const s = segments[i];
+  for (let i = 0; i < cues.length; i++) {
+    const s = cues[i];
     const startTime = parseTimestampToSeconds(s.startTime);
-    const text = type === 'translated' ? (s.translatedText || '') : s.text;
+    const text = segmentText(s, language);
 
     const cleanText = text.replace(/[\r\n]+/g, ' ');
     lines.push(`${formatSecondsToLRC(startTime)}${cleanText}`);
@@ -129,8 +187,10 @@ export const exportAsLRC = (segments: TranscriptionSegment[], type: 'original' |
   return lines.join('\n');
 };
 
-export const exportAsTTML = (segments: TranscriptionSegment[], type: 'original' | 'translated'): string => {
-  // Logic to group individual segments (words/phrases) into readable lines (paragraphs)
+/**
+ * Groups individual segments (words/phrases) into readable lines (paragraphs).
+ */
+const groupSegmentsIntoLines = (segments: TranscriptionSegment[], language: string | null): TranscriptionSegment[][] => {
   const groups: TranscriptionSegment[][] = [];
   let currentGroup: TranscriptionSegment[] = [];
 
@@ -145,7 +205,7 @@ export const exportAsTTML = (segments: TranscriptionSegment[], type: 'original'
     const currStart = parseTimestampToSeconds(s.startTime);
     
     // Determine text content for logic
-    const prevText = type === 'translated' ? (prev.translatedText || prev.text) : prev.text;
+    const prevText = segmentText(prev, language) || prev.text;
     
     // Breaking logic:
     // 1. Strong punctuation at end of previous segment (. ? ! )
@@ -153,14 +213,17 @@ export const exportAsTTML = (segments: TranscriptionSegment[], type: 'original'
     
     // 2. Time gap (Pause) > 0.8s
     const isPause = (currStart - prevEnd) > 0.8;
+
+    // 2b. A different speaker always starts a new line
+    const isSpeakerChange = prev.speaker !== s.speaker;
     
     // 3. Line length limits. If current line > 45 chars, look for any punctuation or moderate pause to break.
-    const currentChars = currentGroup.reduce((acc, seg) => acc + (type === 'translated' ? (seg.translatedText || '').length : seg.text.length), 0);
+    const currentChars = currentGroup.reduce((acc, seg) => acc + segmentText(seg, language).length, 0);
     const isLong = currentChars > 45;
     const isModeratePause = (currStart - prevEnd) > 0.3;
     const hasComma = /[,，]$/.test(prevText.trim());
 
-    if (isSentenceEnd || isPause || (isLong && (isModeratePause || hasComma))) {
+    if (isSentenceEnd || isPause || isSpeakerChange || (isLong && (isModeratePause || hasComma))) {
       groups.push(currentGroup);
       currentGroup = [s];
     } else {
@@ -172,8 +235,27 @@ export const exportAsTTML = (segments: TranscriptionSegment[], type: 'original'
     groups.push(currentGroup);
   }
 
-  // Generate XML
-  const bodyContent = groups.map((group) => {
+  return groups;
+};
+
+export interface TTMLOptions {
+  /** Language spoken in the audio, declared as the original transcript's xml:lang. */
+  sourceLanguage?: string;
+  /** Build paragraphs from these constraints instead of the built-in line grouping. */
+  segmentation?: SegmentationConstraints;
+}
+
+const trackTag = (language: string | null, options: TTMLOptions): string =>
+  languageTag(language ?? options.sourceLanguage);
+
+const ttmlAgentId = (speaker: string, speakers: string[]) => `speaker_${speakers.indexOf(speaker) + 1}`;
+
+/**
+ * One <p> per line of text (per cue with segmentation, its lines split by <br/>), with a
+ * timed <span> per segment.
+ */
+const ttmlParagraphs = (groups: TranscriptionSegment[][], language: string | null, speakers: string[], indent: string, segmentation?: SegmentationConstraints): string => {
+  return groups.map((group) => {
     if (group.length === 0) return '';
 
     const first = group[0];
@@ -186,10 +268,15 @@ export const exportAsTTML = (segments: TranscriptionSegment[], type: 'original'
     // we can technically still use span or just text. 
     // The requested format uses spans, so we will generate spans for all items.
 
+    const breaks = wordLineStarts(group.map(s => segmentText(s, language).trim()), segmentation);
     const spans = group.map((s, index) => {
       const start = formatTimestampForTTML(s.startTime);
       const end = formatTimestampForTTML(s.endTime);
-      let content = type === 'translated' ? (s.translatedText || '') : s.text;
+      let content = segmentText(s, language);
+      if (segmentation && group.length === 1) {
+        const lines = wrapLines(content, segmentation.maxCharsPerLine, segmentation.maxLines).map(escapeXml);
+        return `${indent}  <span begin="${start}" end="${end}">${lines.join('<br/>')}</span>`;
+      }
       
       // Auto-spacing logic:
       // If NOT CJK, and NOT the last item in the group, and DOES NOT end in space...
@@ -199,32 +286,349 @@ export const exportAsTTML = (segments: TranscriptionSegment[], type: 'original'
         content += ' ';
       }
       
-      return `        <span begin="${start}" end="${end}">${escapeXml(content)}</span>`;
+      const lineBreak = breaks.has(index + 1) ? '<br/>' : '';
+      return `${indent}  <span begin="${start}" end="${end}">${escapeXml(lineBreak ? content.trimEnd() : content)}</span>${lineBreak}`;
     }).join('\n');
 
-    return `      <p begin="${pStart}" end="${pEnd}">\n${spans}\n      </p>`;
+    const agent = first.speaker ? ` ttm:agent="${ttmlAgentId(first.speaker, speakers)}"` : '';
+    return `${indent}<p begin="${pStart}" end="${pEnd}"${agent}>\n${spans}\n${indent}</p>`;
   }).join('\n');
+};
+
+const ttmlDocument = (rootLang: string, speakers: string[], layout: string, body: string): string => {
+  // Speakers are declared once in the head and referenced from each paragraph
+  const agents = speakers.length > 0
+    ? `\n    <metadata>\n${speakers.map(sp => `      <ttm:agent xml:id="${ttmlAgentId(sp, speakers)}" type="person">\n        <ttm:name type="full">${escapeXml(sp)}</ttm:name>\n      </ttm:agent>`).join('\n')}\n    </metadata>`
+    : '';
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="en">
-  <head>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xml:lang="${rootLang}">
+  <head>${agents}
     <styling>
       <style xml:id="defaultCaption" tts:fontSize="10px" tts:fontFamily="SansSerif" tts:fontWeight="normal" tts:fontStyle="normal" tts:textDecoration="none" tts:color="white" tts:backgroundColor="black" tts:textAlign="center" />
-    </styling>
+    </styling>${layout}
   </head>
   <body>
-    <div style="defaultCaption">
-${bodyContent}
-    </div>
+${body}
   </body>
 </tt>`;
 };
 
-export const exportAsJSON = (segments: TranscriptionSegment[], type: 'original' | 'translated'): string => {
-  const data = segments.map(s => ({
+export const exportAsTTML = (segments: TranscriptionSegment[], language: string | null, options: TTMLOptions = {}): string => {
+  const speakers = listSpeakers(segments);
+  const groups = options.segmentation ? groupIntoCues(segments, options.segmentation, language) : groupSegmentsIntoLines(segments, language);
+  const body = `    <div style="defaultCaption">\n${ttmlParagraphs(groups, language, speakers, '      ', options.segmentation)}\n    </div>`;
+  return ttmlDocument(trackTag(language, options), speakers, '', body);
+};
+
+/**
+ * TTML with one <div> per language, each carrying its own xml:lang and placed in a top or
+ * bottom region so players show both at once. With segmentation both share the cues built
+ * from the top language.
+ */
+export const exportAsBilingualTTML = (segments: TranscriptionSegment[], tracks: BilingualTracks, options: TTMLOptions = {}): string => {
+  const speakers = listSpeakers(segments);
+  const layout = `
+    <layout>
+      <region xml:id="top" tts:origin="10% 5%" tts:extent="80% 20%" tts:displayAlign="before" />
+      <region xml:id="bottom" tts:origin="10% 75%" tts:extent="80% 20%" tts:displayAlign="after" />
+    </layout>`;
+  const segmentation = singleLine(options.segmentation);
+  const cues = segmentation && groupIntoCues(segments, segmentation, tracks.top);
+  const division = (language: string | null, region: 'top' | 'bottom') => {
+    const groups = cues || groupSegmentsIntoLines(segments, language);
+    return `    <div style="defaultCaption" region="${region}" xml:lang="${trackTag(language, options)}">\n${ttmlParagraphs(groups, language, speakers, '      ', segmentation)}\n    </div>`;
+  };
+  const body = `${division(tracks.top, 'top')}\n${division(tracks.bottom, 'bottom')}`;
+  return ttmlDocument(trackTag(tracks.top, options), speakers, layout, body);
+};
+
+/** The original export also carries every translation, so it imports back without loss. */
+export const exportAsJSON = (segments: TranscriptionSegment[], language: string | null, segmentation?: SegmentationConstraints): string => {
+  const data = toCues(segments, language, segmentation).map(s => ({
     startTime: s.startTime,
     endTime: s.endTime,
-    text: type === 'translated' ? (s.translatedText || '') : s.text
+    text: segmentText(s, language),
+    ...(s.speaker ? { speaker: s.speaker } : {}),
+    ...(language === null && s.translations && Object.keys(s.translations).length > 0 ? { translations: s.translations } : {}),
   }));
   return JSON.stringify(data, null, 2);
 };
+
+
+export interface VTTOptions {
+  /** Group word-level segments into cues with inline <HH:MM:SS.mmm> timestamp tags (karaoke rendering). */
+  wordTimestamps?: boolean;
+  /** Cue settings, written verbatim after the timing, e.g. align 'center', line '-2', position '50%'. */
+  align?: 'start' | 'center' | 'end' | 'left' | 'right';
+  line?: string;
+  position?: string;
+  size?: string;
+  /** Written into a NOTE block below the header. */
+  modelName?: string;
+  sourceName?: string;
+  /** Rebuild cues (and karaoke lines) from these constraints. */
+  segmentation?: SegmentationConstraints;
+}
+
+export interface VTTCuePreset {
+  label: string;
+  settings: Pick<VTTOptions, 'align' | 'line' | 'position' | 'size'>;
+}
+
+/** Cue placements offered in the export bar; players fall back to bottom centre without settings. */
+export const VTT_CUE_PRESETS: Record<string, VTTCuePreset> = {
+  default: { label: 'Player default', settings: {} },
+  bottom: { label: 'Bottom centre', settings: { align: 'center', line: '-2', position: '50%', size: '80%' } },
+  top: { label: 'Top centre', settings: { align: 'center', line: '10%', position: '50%', size: '80%' } },
+  left: { label: 'Bottom left', settings: { align: 'start', line: '-2', position: '10%', size: '60%' } },
+};
+
+const buildCueSettings = (options: VTTOptions): string => {
+  const settings: string[] = [];
+  if (options.align) settings.push(`align:${options.align}`);
+  if (options.line) settings.push(`line:${options.line}`);
+  if (options.position) settings.push(`position:${options.position}`);
+  if (options.size) settings.push(`size:${options.size}`);
+  return settings.length > 0 ? ' ' + settings.join(' ') : '';
+};
+
+const vttHeader = (options: VTTOptions): string => {
+  let header = 'WEBVTT';
+  if (options.modelName || options.sourceName) {
+    // "-->" is not allowed anywhere inside a NOTE block
+    const noteLines = [
+      options.modelName && `Model: ${options.modelName}`,
+      options.sourceName && `Source: ${options.sourceName}`,
+      `Generated: ${new Date().toISOString()}`,
+    ].filter(Boolean).map(l => (l as string).replace(/-->/g, '->'));
+    header += `\n\nNOTE\n${noteLines.join('\n')}`;
+  }
+  return header;
+};
+
+export const exportAsVTT = (segments: TranscriptionSegment[], language: string | null, options: VTTOptions = {}): string => {
+  const settings = buildCueSettings(options);
+  const getText = (s: TranscriptionSegment) => segmentText(s, language);
+
+  const header = vttHeader(options);
+
+  let cues: string[];
+  if (options.wordTimestamps && language === null) {
+    const groups = options.segmentation ? groupIntoCues(segments, options.segmentation, language) : groupSegmentsIntoLines(segments, language);
+    cues = groups.map(group => {
+      const start = formatSecondsToVTT(parseTimestampToSeconds(group[0].startTime));
+      const end = formatSecondsToVTT(parseTimestampToSeconds(group[group.length - 1].endTime));
+      const breaks = wordLineStarts(group.map(s => getText(s).trim()), options.segmentation);
+      const text = group.map((s, index) => {
+        const word = escapeVtt(getText(s).trim());
+        if (index === 0) return word;
+        const tag = `<${formatSecondsToVTT(parseTimestampToSeconds(s.startTime))}>`;
+        return breaks.has(index) ? `\n${tag}${word}` : isCJK(word) ? `${tag}${word}` : ` ${tag}${word}`;
+      }).join('');
+      return `${start} --> ${end}${settings}\n${withVoice(text, group[0].speaker)}`;
+    });
+  } else {
+    cues = toCues(segments, language, options.segmentation).map(s => {
+      const start = formatSecondsToVTT(parseTimestampToSeconds(s.startTime));
+      const end = formatSecondsToVTT(parseTimestampToSeconds(s.endTime));
+      return `${start} --> ${end}${settings}\n${withVoice(escapeVtt(getText(s)), s.speaker)}`;
+    });
+  }
+
+  return `${header}\n\n${cues.map((cue, i) => `${i + 1}\n${cue}`).join('\n\n')}\n`;
+};
+
+/** WebVTT with the two languages stacked in each cue; the voice span goes on the top line. */
+export const exportAsBilingualVTT = (segments: TranscriptionSegment[], tracks: BilingualTracks, options: VTTOptions = {}): string => {
+  // Word timestamps make no sense across two languages, so cues are always one per segment
+  const { wordTimestamps, ...rest } = options;
+  const settings = buildCueSettings(rest);
+  const cues = toCues(segments, tracks.top, singleLine(options.segmentation)).map(s => {
+    const start = formatSecondsToVTT(parseTimestampToSeconds(s.startTime));
+    const end = formatSecondsToVTT(parseTimestampToSeconds(s.endTime));
+    const [top, ...others] = bilingualLines(s, tracks).map(escapeVtt);
+    return `${start} --> ${end}${settings}\n${[withVoice(top ?? '', s.speaker), ...others].join('\n')}`;
+  });
+  return `${vttHeader(rest)}\n\n${cues.map((cue, i) => `${i + 1}\n${cue}`).join('\n\n')}\n`;
+};
+
+export interface ASSStyle {
+  fontName: string;
+  fontSize: number;
+  primaryColour: string;   // &HAABBGGRR
+  outlineColour: string;
+  backColour: string;
+  bold: boolean;
+  borderStyle: 1 | 3;      // 1 = outline + shadow, 3 = opaque box
+  outline: number;
+  shadow: number;
+  alignment: number;       // Numpad layout: 2 = bottom centre, 8 = top centre
+  marginL: number;
+  marginR: number;
+  marginV: number;
+}
+
+export interface ASSPreset {
+  label: string;
+  main: ASSStyle;
+  translation: ASSStyle;
+  /** Where the translated line goes: its own top-aligned event, or stacked under the original. */
+  translationPosition: 'top' | 'bottom';
+}
+
+const BASE_ASS_STYLE: ASSStyle = {
+  fontName: 'Arial',
+  fontSize: 56,
+  primaryColour: '&H00FFFFFF',
+  outlineColour: '&H00000000',
+  backColour: '&H80000000',
+  bold: false,
+  borderStyle: 1,
+  outline: 2.5,
+  shadow: 1,
+  alignment: 2,
+  marginL: 60,
+  marginR: 60,
+  marginV: 50,
+};
+
+export const ASS_PRESETS: Record<string, ASSPreset> = {
+  default: {
+    label: 'Default',
+    main: BASE_ASS_STYLE,
+    translation: { ...BASE_ASS_STYLE, fontSize: 44, primaryColour: '&H0000E6FF' },
+    translationPosition: 'bottom',
+  },
+  fansub: {
+    label: 'Fansub',
+    main: { ...BASE_ASS_STYLE, fontName: 'Trebuchet MS', fontSize: 62, bold: true, outline: 3.5, shadow: 2, primaryColour: '&H00F5F5F5', outlineColour: '&H00402010' },
+    translation: { ...BASE_ASS_STYLE, fontName: 'Trebuchet MS', fontSize: 46, outline: 3, alignment: 8, marginV: 40, primaryColour: '&H00B4F0FF' },
+    translationPosition: 'top',
+  },
+  broadcast: {
+    label: 'Broadcast',
+    main: { ...BASE_ASS_STYLE, fontName: 'Helvetica', fontSize: 50, borderStyle: 3, outline: 0, shadow: 0, backColour: '&H60000000', marginV: 70, marginL: 120, marginR: 120 },
+    translation: { ...BASE_ASS_STYLE, fontName: 'Helvetica', fontSize: 42, borderStyle: 3, outline: 0, shadow: 0, backColour: '&H60000000', marginV: 70, marginL: 120, marginR: 120, primaryColour: '&H00D0D0D0' },
+    translationPosition: 'bottom',
+  },
+};
+
+export interface ASSOptions {
+  preset?: ASSPreset;
+  /** Emit \k karaoke timing by grouping word-level segments into lines. */
+  karaoke?: boolean;
+  /** Add this language's translation (when present) as a second line in the preset's translation style. */
+  translationLanguage?: string;
+  title?: string;
+  /** Rebuild events (and karaoke lines) from these constraints. */
+  segmentation?: SegmentationConstraints;
+}
+
+/**
+ * ASS uses H:MM:SS.cc (centiseconds).
+ */
+const formatSecondsToASS = (totalSeconds: number): string => {
+  const cs = Math.round(totalSeconds * 100);
+  const h = Math.floor(cs / 360000);
+  const m = Math.floor((cs % 360000) / 6000);
+  const s = Math.floor((cs % 6000) / 100);
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(cs % 100).padStart(2, '0')}`;
+};
+
+const escapeAss = (text: string): string => {
+  // Braces start override blocks and cannot be escaped, so swap them for parentheses
+  return text.replace(/\{/g, '(').replace(/\}/g, ')').replace(/\r?\n/g, '\\N');
+};
+
+const formatAssStyle = (name: string, s: ASSStyle): string => {
+  return `Style: ${name},${s.fontName},${s.fontSize},${s.primaryColour},&H000000FF,${s.outlineColour},${s.backColour},${s.bold ? -1 : 0},0,0,0,100,100,0,0,${s.borderStyle},${s.outline},${s.shadow},${s.alignment},${s.marginL},${s.marginR},${s.marginV},1`;
+};
+
+export const exportAsASS = (segments: TranscriptionSegment[], language: string | null, options: ASSOptions = {}): string => {
+  const preset = options.preset || ASS_PRESETS.default;
+  const translationLanguage = language === null ? options.translationLanguage : undefined;
+  const karaoke = options.karaoke && language === null;
+  const getText = (s: TranscriptionSegment) => segmentText(s, language);
+  const dialogue = (start: number, end: number, style: string, text: string, speaker = '') =>
+    `Dialogue: 0,${formatSecondsToASS(start)},${formatSecondsToASS(end)},${style},${speaker.replace(/,/g, ' ')},0,0,0,,${text}`;
+
+  const events: string[] = [];
+  const groups = karaoke
+    ? (options.segmentation ? groupIntoCues(segments, options.segmentation, language) : groupSegmentsIntoLines(segments, language))
+    : toCues(segments, language, options.segmentation).map(s => [s]);
+
+  groups.forEach(group => {
+    const start = parseTimestampToSeconds(group[0].startTime);
+    const end = parseTimestampToSeconds(group[group.length - 1].endTime);
+
+    let text: string;
+    if (karaoke) {
+      // Each word's \k runs until the next word starts, so pauses stay with the preceding word
+      const breaks = wordLineStarts(group.map(s => getText(s).trim()), options.segmentation);
+      text = group.map((s, index) => {
+        const wordStart = parseTimestampToSeconds(s.startTime);
+        const wordEnd = index < group.length - 1 ? parseTimestampToSeconds(group[index + 1].startTime) : end;
+        const word = escapeAss(getText(s).trim());
+        const spacer = breaks.has(index + 1) ? '\\N' : index < group.length - 1 && !isCJK(word) ? ' ' : '';
+        return `{\\k${Math.max(0, Math.round((wordEnd - wordStart) * 100))}}${word}${spacer}`;
+      }).join('');
+    } else {
+      text = escapeAss(getText(group[0]));
+    }
+
+    const translated = translationLanguage
+      ? group.map(s => segmentText(s, translationLanguage)).filter(Boolean).join(' ')
+      : '';
+
+    if (translated && preset.translationPosition === 'bottom') {
+      events.push(dialogue(start, end, 'Main', `${text}\\N{\\rTranslation}${escapeAss(translated)}`, group[0].speaker));
+    } else {
+      events.push(dialogue(start, end, 'Main', text, group[0].speaker));
+      if (translated) events.push(dialogue(start, end, 'Translation', escapeAss(translated), group[0].speaker));
+    }
+  });
+
+  return assDocument(options.title, [formatAssStyle('Main', preset.main), formatAssStyle('Translation', preset.translation)], events);
+};
+
+const assDocument = (title: string | undefined, styles: string[], events: string[]): string => `[Script Info]
+Title: ${title || 'Transcription'}
+ScriptType: v4.00+
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+${styles.join('\n')}
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+${events.join('\n')}
+`;
+
+/**
+ * ASS with one event per language: `Top` (the preset's translation look, top-centre) and
+ * `Bottom` (its main look, bottom-centre), so each can be restyled separately in Aegisub.
+ */
+export const exportAsBilingualASS = (segments: TranscriptionSegment[], tracks: BilingualTracks, options: ASSOptions = {}): string => {
+  const preset = options.preset || ASS_PRESETS.default;
+  const topStyle: ASSStyle = { ...preset.translation, alignment: 8 };
+  const bottomStyle: ASSStyle = { ...preset.main, alignment: 2 };
+  const dialogue = (start: number, end: number, style: string, text: string, speaker = '') =>
+    `Dialogue: 0,${formatSecondsToASS(start)},${formatSecondsToASS(end)},${style},${speaker.replace(/,/g, ' ')},0,0,0,,${text}`;
+
+  const events: string[] = [];
+  toCues(segments, tracks.top, singleLine(options.segmentation)).forEach(s => {
+    const start = parseTimestampToSeconds(s.startTime);
+    const end = parseTimestampToSeconds(s.endTime);
+    const top = segmentText(s, tracks.top).trim();
+    const bottom = segmentText(s, tracks.bottom).trim();
+    if (top) events.push(dialogue(start, end, 'Top', escapeAss(top), s.speaker));
+    if (bottom) events.push(dialogue(start, end, 'Bottom', escapeAss(bottom), s.speaker));
+  });
+
+  return assDocument(options.title, [formatAssStyle('Top', topStyle), formatAssStyle('Bottom', bottomStyle)], events);
+};
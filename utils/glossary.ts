@@ -0,0 +1,174 @@
+
+import { Glossary, GlossaryTerm, TranscriptionSegment } from "../types";
+import { segmentText } from "./translations";
+
+export const EMPTY_GLOSSARY: Glossary = { terms: {}, doNotTranslate: [] };
+
+export type GlossaryRuleKind = 'term' | 'do_not_translate';
+
+/** One requirement on a translation: wherever `source` appears, `target` must appear in the output. */
+export interface GlossaryRule {
+  source: string;
+  target: string;
+  kind: GlossaryRuleKind;
+}
+
+export interface GlossaryIssue {
+  index: number; // Segment index
+  language: string;
+  rule: GlossaryRule;
+}
+
+// Scripts written without spaces, where word boundaries mean nothing
+const UNSPACED_SCRIPT = /[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af\u0e00-\u0e7f]/;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Case-insensitive whole-word match, so "Lab" does not match "label". */
+export const containsTerm = (text: string, term: string): boolean => {
+  const needle = term.trim();
+  if (!needle) return false;
+  if (UNSPACED_SCRIPT.test(needle)) return text.toLowerCase().includes(needle.toLowerCase());
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(needle)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+};
+
+/** The rules that apply when translating into `language`: its term pairs plus the do-not-translate list. */
+export const glossaryRules = (glossary: Glossary | undefined, language: string | undefined): GlossaryRule[] => {
+  if (!glossary) return [];
+  const terms = (language && glossary.terms[language]) || [];
+  return [
+    ...terms.filter(t => t.source.trim() && t.target.trim()).map(t => ({ source: t.source, target: t.target, kind: 'term' as const })),
+    ...glossary.doNotTranslate.filter(t => t.trim()).map(t => ({ source: t, target: t, kind: 'do_not_translate' as const })),
+  ];
+};
+
+/** Rules whose source term occurs in any of the given texts. */
+export const rulesInText = (texts: string[], rules: GlossaryRule[]): GlossaryRule[] =>
+  rules.filter(rule => texts.some(text => containsTerm(text, rule.source)));
+
+/** Rules broken by one translated segment. */
+export const segmentViolations = (text: string, translatedText: string, rules: GlossaryRule[]): GlossaryRule[] =>
+  rules.filter(rule => containsTerm(text, rule.source) && !containsTerm(translatedText, rule.target));
+
+/** Post-check over one language's translation. Segments not translated into it are skipped. */
+export const checkGlossary = (segments: TranscriptionSegment[], rules: GlossaryRule[], language: string): GlossaryIssue[] => {
+  if (rules.length === 0) return [];
+  const issues: GlossaryIssue[] = [];
+  segments.forEach((segment, index) => {
+    const translated = segmentText(segment, language);
+    if (!translated) return;
+    segmentViolations(segment.text, translated, rules).forEach(rule => issues.push({ index, language, rule }));
+  });
+  return issues;
+};
+
+/**
+ * Merges `incoming` into `base`. Term pairs replace existing ones with the same source
+ * (case-insensitive) in the same language; do-not-translate entries are deduplicated.
+ */
+export const mergeGlossaries = (base: Glossary, incoming: Glossary): Glossary => {
+  const terms: Record<string, GlossaryTerm[]> = { ...base.terms };
+  for (const language of Object.keys(incoming.terms)) {
+    const merged = [...(terms[language] || [])];
+    for (const term of incoming.terms[language]) {
+      const existing = merged.findIndex(t => t.source.toLowerCase() === term.source.toLowerCase());
+      if (existing === -1) merged.push(term);
+      else merged[existing] = term;
+    }
+    terms[language] = merged;
+  }
+  const seen = new Set(base.doNotTranslate.map(t => t.toLowerCase()));
+  const doNotTranslate = [...base.doNotTranslate];
+  for (const entry of incoming.doNotTranslate) {
+    if (seen.has(entry.toLowerCase())) continue;
+    seen.add(entry.toLowerCase());
+    doNotTranslate.push(entry);
+  }
+  return { terms, doNotTranslate };
+};
+
+/* --- CSV: type,language,source,target --- */
+
+const CSV_HEADER = ['type', 'language', 'source', 'target'];
+const DO_NOT_TRANSLATE_TYPES = ['do-not-translate', 'do_not_translate', 'dnt', 'keep'];
+
+const csvField = (value: string): string =>
+  /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * One row per term pair (`term,<language>,<source>,<target>`) and one per do-not-translate
+ * entry (`do-not-translate,,<term>,`). A BOM keeps spreadsheet apps reading it as UTF-8.
+ */
+export const glossaryToCsv = (glossary: Glossary): string => {
+  const rows = [CSV_HEADER];
+  for (const language of Object.keys(glossary.terms).sort()) {
+    for (const term of glossary.terms[language]) rows.push(['term', language, term.source, term.target]);
+  }
+  for (const entry of glossary.doNotTranslate) rows.push(['do-not-translate', '', entry, '']);
+  return '\ufeff' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/** RFC 4180 rows: quoted fields may hold commas, doubled quotes and line breaks. */
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+/**
+ * Reads a glossary CSV. Columns are matched by header name when a header row is present,
+ * otherwise taken in `type,language,source,target` order. Throws on the first bad row.
+ */
+export const parseGlossaryCsv = (content: string): Glossary => {
+  const rows = parseCsvRows(content.replace(/^\ufeff/, ''));
+  if (rows.length === 0) throw new Error('The glossary file is empty');
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('source');
+  const column = (name: string) => hasHeader ? header.indexOf(name) : CSV_HEADER.indexOf(name);
+  const [typeCol, languageCol, sourceCol, targetCol] = CSV_HEADER.map(column);
+
+  const glossary: Glossary = { terms: {}, doNotTranslate: [] };
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  dataRows.forEach((row, i) => {
+    const line = i + (hasHeader ? 2 : 1);
+    const cell = (col: number) => (col >= 0 ? row[col] ?? '' : '').trim();
+    const type = cell(typeCol).toLowerCase() || 'term';
+    const source = cell(sourceCol);
+    if (!source) throw new Error(`Row ${line}: missing source term`);
+
+    if (DO_NOT_TRANSLATE_TYPES.includes(type)) {
+      glossary.doNotTranslate.push(source);
+    } else if (type === 'term') {
+      const language = cell(languageCol);
+      const target = cell(targetCol);
+      if (!language) throw new Error(`Row ${line}: term "${source}" has no language`);
+      if (!target) throw new Error(`Row ${line}: term "${source}" has no target`);
+      (glossary.terms[language] ||= []).push({ source, target });
+    } else {
+      throw new Error(`Row ${line}: unknown type "${type}" (use "term" or "do-not-translate")`);
+    }
+  });
+  return mergeGlossaries(EMPTY_GLOSSARY, glossary);
+};
@@ -0,0 +1,339 @@
+
+import { TranscriptionSegment } from "../types";
+import { UNKNOWN_LANGUAGE } from "./translations";
+import { timestampToSeconds, secondsToTimestamp } from "../services/geminiService";
+
+export type SubtitleFormat = 'SRT' | 'VTT' | 'LRC' | 'TTML' | 'JSON';
+
+// Used for the last LRC line, which has no following line to end it.
+const DEFAULT_LAST_LINE_SECONDS = 3;
+
+/**
+ * Normalizes any parsable timestamp to the app's canonical HH:MM:SS.mmm.
+ */
+const normalizeTimestamp = (ts: string): string => secondsToTimestamp(timestampToSeconds(ts));
+
+const withSpeaker = (segment: TranscriptionSegment, speaker?: string): TranscriptionSegment => {
+  return speaker ? { ...segment, speaker } : segment;
+};
+
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Splits text into blank-line separated blocks, tolerating CRLF and stray whitespace.
+ */
+const splitBlocks = (content: string): string[] => {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(b => b.trim())
+    .filter(Boolean);
+};
+
+export const parseSRT = (content: string): TranscriptionSegment[] => {
+  const segments: TranscriptionSegment[] = [];
+
+  for (const block of splitBlocks(content)) {
+    const lines = block.split('\n');
+    const timingIdx = lines.findIndex(l => l.includes('-->'));
+    if (timingIdx === -1) continue;
+
+    const [start, end] = lines[timingIdx].split('-->').map(p => p.trim().split(/\s+/)[0]);
+    const text = lines.slice(timingIdx + 1).join('\n').replace(/<\/?[biu]>|<\/?font[^>]*>/gi, '');
+
+    segments.push({
+      startTime: normalizeTimestamp(start),
+      endTime: normalizeTimestamp(end),
+      text,
+    });
+  }
+  return segments;
+};
+
+const VTT_WORD_TIME = /<(\d+:\d+(?::\d+)?\.\d+)>/;
+const VTT_VOICE = /^<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+
+export const parseVTT = (content: string): TranscriptionSegment[] => {
+  const segments: TranscriptionSegment[] = [];
+
+  for (const block of splitBlocks(content)) {
+    // Header, comments and style/region definitions carry no cues
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block)) continue;
+
+    const lines = block.split('\n');
+    const timingIdx = lines.findIndex(l => l.includes('-->'));
+    if (timingIdx === -1) continue;
+
+    // Cue settings (align:, position:...) follow the end time and are dropped
+    const [start, end] = lines[timingIdx].split('-->').map(p => p.trim().split(/\s+/)[0]);
+    const cueText = lines.slice(timingIdx + 1).join('\n');
+    const voice = cueText.match(VTT_VOICE);
+    const speaker = voice ? voice[1].trim() : undefined;
+    const rawText = voice ? cueText.replace(VTT_VOICE, '') : cueText;
+
+    // Inline timestamp tags mean the cue was built from word-level segments
+    if (VTT_WORD_TIME.test(rawText)) {
+      const parts = rawText.split(/(?=<\d+:\d+(?::\d+)?\.\d+>)/);
+      const words = parts.map((part, i) => {
+        const tag = part.match(VTT_WORD_TIME);
+        return {
+          start: i === 0 || !tag ? timestampToSeconds(start) : timestampToSeconds(tag[1]),
+          text: decodeEntities(part.replace(/<[^>]+>/g, '')).trim(),
+        };
+      }).filter(w => w.text.length > 0);
+
+      words.forEach((word, i) => {
+        segments.push(withSpeaker({
+          startTime: secondsToTimestamp(word.start),
+          endTime: i < words.length - 1 ? secondsToTimestamp(words[i + 1].start) : normalizeTimestamp(end),
+          text: word.text,
+        }, speaker));
+      });
+      continue;
+    }
+
+    segments.push(withSpeaker({
+      startTime: normalizeTimestamp(start),
+      endTime: normalizeTimestamp(end),
+      text: decodeEntities(rawText.replace(/<[^>]+>/g, '')),
+    }, speaker));
+  }
+  return segments;
+};
+
+const LRC_TIME = /\[(\d+:\d+(?:[.:]\d+)?)\]/g;
+const LRC_WORD_TIME = /<(\d+:\d+(?:[.:]\d+)?)>/;
+
+/**
+ * Parses LRC, including repeated line tags ([00:10.00][00:45.00]Chorus) and
+ * enhanced word tags (<00:10.00>word). Lines with word tags become one segment
+ * per word so they load the same way a word-granularity result would.
+ */
+export const parseLRC = (content: string, totalDuration?: number): TranscriptionSegment[] => {
+  const entries: { start: number; text: string; words?: { start: number; text: string }[] }[] = [];
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    const times: number[] = [];
+    let match;
+    LRC_TIME.lastIndex = 0;
+    while ((match = LRC_TIME.exec(line)) !== null) {
+      times.push(timestampToSeconds(match[1]));
+    }
+    // Metadata tags like [ar:Artist] have no timestamp and are skipped
+    if (times.length === 0) continue;
+
+    const body = line.replace(LRC_TIME, '').trim();
+    let words: { start: number; text: string }[] | undefined;
+    if (LRC_WORD_TIME.test(body)) {
+      words = body
+        .split(/(?=<\d+:\d+(?:[.:]\d+)?>)/)
+        .map(part => {
+          const wordMatch = part.match(LRC_WORD_TIME);
+          return wordMatch
+            ? { start: timestampToSeconds(wordMatch[1]), text: part.replace(LRC_WORD_TIME, '').trim() }
+            : null;
+        })
+        .filter((w): w is { start: number; text: string } => !!w && w.text.length > 0);
+    }
+
+    for (const start of times) {
+      entries.push({ start, text: body.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim(), words });
+    }
+  }
+
+  entries.sort((a, b) => a.start - b.start);
+
+  const segments: TranscriptionSegment[] = [];
+  entries.forEach((entry, i) => {
+    const nextStart = entries[i + 1]?.start;
+    const end = nextStart ?? (totalDuration && totalDuration > entry.start ? totalDuration : entry.start + DEFAULT_LAST_LINE_SECONDS);
+
+    if (entry.words && entry.words.length > 0) {
+      entry.words.forEach((word, w) => {
+        segments.push({
+          startTime: secondsToTimestamp(word.start),
+          endTime: secondsToTimestamp(entry.words![w + 1]?.start ?? end),
+          text: word.text,
+        });
+      });
+    } else if (entry.text) {
+      segments.push({
+        startTime: secondsToTimestamp(entry.start),
+        endTime: secondsToTimestamp(end),
+        text: entry.text,
+      });
+    }
+  });
+  return segments;
+};
+
+/**
+ * Parses TTML clock times (HH:MM:SS.mmm, HH:MM:SS:frames) and offset times (12.5s, 300ms, 1.2h).
+ */
+const parseTTMLTime = (value: string | null, frameRate: number): number => {
+  if (!value) return 0;
+  const offset = value.trim().match(/^([\d.]+)(h|m|s|ms|f|t)$/);
+  if (offset) {
+    const n = parseFloat(offset[1]);
+    switch (offset[2]) {
+      case 'h': return n * 3600;
+      case 'm': return n * 60;
+      case 's': return n;
+      case 'ms': return n / 1000;
+      case 'f': return n / frameRate;
+      case 't': return n / 10000000; // Default tick rate
+    }
+  }
+  const parts = value.trim().split(':');
+  if (parts.length === 4) {
+    const [h, m, s, f] = parts.map(p => parseFloat(p) || 0);
+    return h * 3600 + m * 60 + s + f / frameRate;
+  }
+  return timestampToSeconds(value);
+};
+
+/**
+ * Collects the text of a TTML node, turning <br/> into newlines.
+ */
+const ttmlText = (node: Node): string => {
+  let text = '';
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += child.textContent || '';
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      text += (child as Element).localName === 'br' ? '\n' : ttmlText(child);
+    }
+  });
+  return text;
+};
+
+/**
+ * Parses TTML. Timed <span>s (as written by exportAsTTML) become individual
+ * segments; paragraphs without timed spans become one segment each.
+ */
+export const parseTTML = (content: string): TranscriptionSegment[] => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("Invalid TTML: the file is not well-formed XML.");
+  }
+
+  const root = doc.documentElement;
+  const frameRate = parseFloat(root.getAttribute('ttp:frameRate') || '') || 30;
+  const segments: TranscriptionSegment[] = [];
+
+  // ttm:agent declarations map xml:id -> display name
+  const agentNames = new Map<string, string>();
+  Array.from(doc.getElementsByTagNameNS('*', 'agent')).forEach(agent => {
+    const id = agent.getAttribute('xml:id');
+    const name = agent.getElementsByTagNameNS('*', 'name')[0]?.textContent?.trim();
+    if (id) agentNames.set(id, name || id);
+  });
+
+  const paragraphs = Array.from(doc.getElementsByTagNameNS('*', 'p'));
+  for (const p of paragraphs) {
+    const agentRef = p.getAttribute('ttm:agent');
+    const speaker = agentRef ? (agentNames.get(agentRef) || agentRef) : undefined;
+
+    const pStart = parseTTMLTime(p.getAttribute('begin'), frameRate);
+    const pEnd = p.hasAttribute('end')
+      ? parseTTMLTime(p.getAttribute('end'), frameRate)
+      : pStart + parseTTMLTime(p.getAttribute('dur'), frameRate);
+
+    const timedSpans = Array.from(p.getElementsByTagNameNS('*', 'span')).filter(s => s.hasAttribute('begin'));
+    if (timedSpans.length > 0) {
+      for (const span of timedSpans) {
+        const text = ttmlText(span).trim();
+        if (!text) continue;
+        segments.push(withSpeaker({
+          startTime: secondsToTimestamp(parseTTMLTime(span.getAttribute('begin'), frameRate)),
+          endTime: secondsToTimestamp(parseTTMLTime(span.getAttribute('end'), frameRate)),
+          text,
+        }, speaker));
+      }
+    } else {
+      const text = ttmlText(p).split('\n').map(l => l.trim()).join('\n').trim();
+      if (!text) continue;
+      segments.push(withSpeaker({
+        startTime: secondsToTimestamp(pStart),
+        endTime: secondsToTimestamp(pEnd),
+        text,
+      }, speaker));
+    }
+  }
+  return segments;
+};
+
+/**
+ * Parses the app's own JSON export (a bare array) or a `{ segments: [...] }` wrapper.
+ */
+export const parseJSON = (content: string): TranscriptionSegment[] => {
+  const data = JSON.parse(content);
+  const items = Array.isArray(data) ? data : data?.segments;
+  if (!Array.isArray(items)) {
+    throw new Error("Invalid JSON: expected an array of segments.");
+  }
+
+  return items
+    .filter((s: any) => s && s.startTime !== undefined && typeof s.text === 'string')
+    .map((s: any) => {
+      const segment: TranscriptionSegment = {
+        startTime: normalizeTimestamp(String(s.startTime)),
+        endTime: normalizeTimestamp(String(s.endTime ?? s.startTime)),
+        text: s.text,
+      };
+      const translations = typeof s.translatedText === 'string' && s.translatedText
+        ? { [UNKNOWN_LANGUAGE]: s.translatedText, ...s.translations }
+        : s.translations;
+      if (translations && typeof translations === 'object') {
+        const entries = Object.entries(translations).filter(([, text]) => typeof text === 'string' && text);
+        if (entries.length > 0) segment.translations = Object.fromEntries(entries) as Record<string, string>;
+      }
+      if (typeof s.speaker === 'string') segment.speaker = s.speaker;
+      return segment;
+    });
+};
+
+/**
+ * Guesses the subtitle format from the file extension, falling back to content sniffing.
+ */
+export const detectSubtitleFormat = (fileName: string, content: string): SubtitleFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'srt': return 'SRT';
+    case 'vtt': return 'VTT';
+    case 'lrc': return 'LRC';
+    case 'ttml': case 'dfxp': case 'xml': return 'TTML';
+    case 'json': return 'JSON';
+  }
+
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'VTT';
+  if (head.startsWith('<')) return 'TTML';
+  if (/^\[(\d+:\d+|[a-z]+:)/i.test(head)) return 'LRC';
+  if (head.startsWith('[') || head.startsWith('{')) return 'JSON';
+  if (/\d+:\d+:\d+[,.]\d+\s*-->/.test(head)) return 'SRT';
+  return null;
+};
+
+export const importSubtitles = (fileName: string, content: string, totalDuration?: number): TranscriptionSegment[] => {
+  const format = detectSubtitleFormat(fileName, content);
+  switch (format) {
+    case 'SRT': return parseSRT(content);
+    case 'VTT': return parseVTT(content);
+    case 'LRC': return parseLRC(content, totalDuration);
+    case 'TTML': return parseTTML(content);
+    case 'JSON': return parseJSON(content);
+    default: throw new Error(`Unsupported subtitle format: ${fileName}`);
+  }
+};
@@ -0,0 +1,31 @@
+
+/**
+ * Languages offered for translation, with the BCP 47 tag written into subtitle formats
+ * that declare a language (TTML `xml:lang`).
+ */
+const LANGUAGE_TAGS: Record<string, string> = {
+  "Afrikaans": "af", "Albanian": "sq", "Amharic": "am", "Arabic": "ar", "Armenian": "hy", "Azerbaijani": "az",
+  "Basque": "eu", "Belarusian": "be", "Bengali": "bn", "Bosnian": "bs", "Bulgarian": "bg", "Catalan": "ca",
+  "Cebuano": "ceb", "Chichewa": "ny", "Chinese (Simplified)": "zh-Hans", "Chinese (Traditional)": "zh-Hant",
+  "Corsican": "co", "Croatian": "hr", "Czech": "cs", "Danish": "da", "Dutch": "nl", "English": "en", "Esperanto": "eo",
+  "Estonian": "et", "Filipino": "fil", "Finnish": "fi", "French": "fr", "Frisian": "fy", "Galician": "gl",
+  "Georgian": "ka", "German": "de", "Greek": "el", "Gujarati": "gu", "Haitian Creole": "ht", "Hausa": "ha",
+  "Hawaiian": "haw", "Hebrew": "he", "Hindi": "hi", "Hmong": "hmn", "Hungarian": "hu", "Icelandic": "is", "Igbo": "ig",
+  "Indonesian": "id", "Irish": "ga", "Italian": "it", "Japanese": "ja", "Javanese": "jv", "Kannada": "kn",
+  "Kazakh": "kk", "Khmer": "km", "Kinyarwanda": "rw", "Korean": "ko", "Kurdish (Kurmanji)": "kmr", "Kyrgyz": "ky",
+  "Lao": "lo", "Latin": "la", "Latvian": "lv", "Lithuanian": "lt", "Luxembourgish": "lb", "Macedonian": "mk",
+  "Malagasy": "mg", "Malay": "ms", "Malayalam": "ml", "Maltese": "mt", "Maori": "mi", "Marathi": "mr", "Mongolian": "mn",
+  "Myanmar (Burmese)": "my", "Nepali": "ne", "Norwegian": "no", "Odia (Oriya)": "or", "Pashto": "ps",
+  "Persian": "fa", "Polish": "pl", "Portuguese": "pt", "Punjabi": "pa", "Romanian": "ro", "Russian": "ru",
+  "Samoan": "sm", "Scots Gaelic": "gd", "Serbian": "sr", "Sesotho": "st", "Shona": "sn", "Sindhi": "sd", "Sinhala": "si",
+  "Slovak": "sk", "Slovenian": "sl", "Somali": "so", "Spanish": "es", "Sundanese": "su", "Swahili": "sw", "Swedish": "sv",
+  "Tajik": "tg", "Tamil": "ta", "Tatar": "tt", "Telugu": "te", "Thai": "th", "Turkish": "tr", "Turkmen": "tk",
+  "Ukrainian": "uk", "Urdu": "ur", "Uyghur": "ug", "Uzbek": "uz", "Vietnamese": "vi", "Welsh": "cy", "Xhosa": "xh",
+  "Yiddish": "yi", "Yoruba": "yo", "Zulu": "zu",
+};
+
+export const LANGUAGES = Object.keys(LANGUAGE_TAGS).sort();
+
+/** BCP 47 tag for a language name; "und" (undetermined) when unknown or unset. */
+export const languageTag = (language: string | null | undefined): string =>
+  (language && LANGUAGE_TAGS[language]) || 'und';
@@ -0,0 +1,81 @@
+
+export type PlaybackAction = 'toggle' | 'back' | 'forward' | 'prevSegment' | 'nextSegment' | 'slower' | 'faster' | 'loopSegment' | 'abLoop';
+
+export const PLAYBACK_ACTIONS: Record<PlaybackAction, string> = {
+  toggle: 'Play / pause',
+  back: 'Skip back',
+  forward: 'Skip forward',
+  prevSegment: 'Previous segment',
+  nextSegment: 'Next segment',
+  slower: 'Slower',
+  faster: 'Faster',
+  loopSegment: 'Loop segment',
+  abLoop: 'Set A / B / clear loop',
+};
+
+export const PLAYBACK_RATES = [0.5, 0.6, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 2];
+
+export interface PlaybackSettings {
+  rate: number;
+  preservePitch: boolean;
+  rewindOnResume: number; // Seconds stepped back when playback resumes after a pause; 0 turns it off
+  skipSeconds: number;
+  hotkeys: Record<PlaybackAction, string>; // Combos as built by `hotkeyFromEvent`; '' is unbound
+}
+
+// Alt combos are free in most browsers and still work while typing in the segment editor
+export const DEFAULT_HOTKEYS: Record<PlaybackAction, string> = {
+  toggle: 'Alt+KeyK',
+  back: 'Alt+KeyJ',
+  forward: 'Alt+KeyL',
+  prevSegment: 'Alt+ArrowUp',
+  nextSegment: 'Alt+ArrowDown',
+  slower: 'Alt+Comma',
+  faster: 'Alt+Period',
+  loopSegment: 'Alt+KeyO',
+  abLoop: 'Alt+KeyP',
+};
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  rate: 1,
+  preservePitch: true,
+  rewindOnResume: 0,
+  skipSeconds: 5,
+  hotkeys: DEFAULT_HOTKEYS,
+};
+
+const PLAYBACK_SETTINGS_KEY = 'playbackSettings';
+
+/** Saved settings over the defaults, so actions added later still get a key. */
+export const loadPlaybackSettings = (): PlaybackSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PLAYBACK_SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_PLAYBACK_SETTINGS, ...stored, hotkeys: { ...DEFAULT_HOTKEYS, ...stored.hotkeys } };
+  } catch {
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+};
+
+export const savePlaybackSettings = (settings: PlaybackSettings) => {
+  localStorage.setItem(PLAYBACK_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const MODIFIER_CODES = /^(Control|Shift|Alt|Meta)(Left|Right)?$/;
+
+/**
+ * The combo a key press makes, e.g. "Ctrl+Shift+KeyJ". Physical key codes are used so
+ * Alt combos still match on layouts where Alt changes the character typed.
+ */
+export const hotkeyFromEvent = (e: KeyboardEvent): string | null => {
+  if (!e.code || MODIFIER_CODES.test(e.code)) return null;
+  return [e.ctrlKey && 'Ctrl', e.metaKey && 'Meta', e.altKey && 'Alt', e.shiftKey && 'Shift', e.code].filter(Boolean).join('+');
+};
+
+/** Whether a combo uses a modifier other than Shift, so it is safe to catch while typing. */
+export const hasModifier = (combo: string): boolean => /(^|\+)(Ctrl|Meta|Alt)\+/.test(combo);
+
+const KEY_NAMES: Record<string, string> = { Comma: ',', Period: '.', Slash: '/', Space: 'Space', ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+
+/** "Alt+KeyK" → "Alt+K". */
+export const formatHotkey = (combo: string): string =>
+  combo ? combo.split('+').map(part => KEY_NAMES[part] ?? part.replace(/^(Key|Digit)/, '')).join('+') : '—';
@@ -0,0 +1,173 @@
+
+import { Glossary, PaneConfig, SessionSnapshot, TranscriptionResult, TranscriptionSegment } from '../types';
+import { mergeGlossaries, EMPTY_GLOSSARY } from './glossary';
+import { upgradeLegacyTranslations, MAX_SHOWN_LANGUAGES } from './translations';
+
+/**
+ * Portable project bundle: one JSON file holding a versioned manifest (panes, results,
+ * translations, speaker names, settings) plus the source audio as base64.
+ *
+ * When the shape of the stored data changes, bump PROJECT_BUNDLE_VERSION and add a step to
+ * MIGRATIONS that upgrades a bundle from the previous version. Optional fields added to
+ * segments or results need no step; `normalizeSnapshot` fills safe defaults.
+ */
+
+export const PROJECT_BUNDLE_FORMAT = 'gemini-transcription-lab/project';
+export const PROJECT_BUNDLE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.gtlab';
+
+export interface BundleAudio {
+  fileName: string;
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface ProjectManifest {
+  name: string;
+  exportedAt: string; // ISO 8601
+  snapshot: SessionSnapshot;
+}
+
+export interface ProjectBundle {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: number;
+  manifest: ProjectManifest;
+  audio: BundleAudio | null;
+}
+
+export interface LoadedProject {
+  name: string;
+  snapshot: SessionSnapshot;
+  audio: BundleAudio | null;
+  migratedFrom?: number; // Original version when the bundle had to be upgraded
+}
+
+/** Upgrade steps keyed by the version they upgrade from. Each returns a bundle one version newer. */
+const MIGRATIONS: Record<number, (bundle: any) => any> = {
+  // v2: a segment's single `translatedText` became `translations` keyed by language
+  1: (bundle) => ({
+    ...bundle,
+    manifest: { ...bundle.manifest, snapshot: upgradeLegacyTranslations(bundle.manifest?.snapshot) },
+  }),
+};
+
+export const createProjectBundle = (
+  name: string,
+  snapshot: SessionSnapshot,
+  audioBase64: string | null
+): ProjectBundle => ({
+  format: PROJECT_BUNDLE_FORMAT,
+  version: PROJECT_BUNDLE_VERSION,
+  manifest: {
+    name,
+    exportedAt: new Date().toISOString(),
+    snapshot,
+  },
+  audio: snapshot.audio && audioBase64
+    ? { fileName: snapshot.audio.fileName, mimeType: snapshot.audio.mimeType, data: audioBase64 }
+    : null,
+});
+
+export const serializeProjectBundle = (bundle: ProjectBundle): string => JSON.stringify(bundle);
+
+const normalizeSegment = (raw: any): TranscriptionSegment => {
+  const segment: TranscriptionSegment = {
+    startTime: String(raw?.startTime ?? '00:00:00.000'),
+    endTime: String(raw?.endTime ?? raw?.startTime ?? '00:00:00.000'),
+    text: String(raw?.text ?? ''),
+  };
+  if (raw?.translations && typeof raw.translations === 'object') {
+    const entries = Object.entries<any>(raw.translations).filter(([, text]) => text !== undefined && text !== null && text !== '');
+    if (entries.length > 0) segment.translations = Object.fromEntries(entries.map(([language, text]) => [language, String(text)]));
+  }
+  if (raw?.speaker) segment.speaker = String(raw.speaker);
+  return segment;
+};
+
+const normalizePane = (raw: any, index: number): PaneConfig => ({
+  id: String(raw?.id ?? `pane-imported-${index + 1}`),
+  modelName: String(raw?.modelName ?? 'gemini-2.5-flash'),
+  granularity: raw?.granularity === 'word' ? 'word' : 'line',
+  settings: {
+    ...raw?.settings,
+    temperature: typeof raw?.settings?.temperature === 'number' ? raw.settings.temperature : 0,
+  },
+  ...(Array.isArray(raw?.shownLanguages) ? { shownLanguages: raw.shownLanguages.map(String).slice(0, MAX_SHOWN_LANGUAGES) } : {}),
+});
+
+const normalizeResult = (raw: any, pane: PaneConfig): TranscriptionResult => ({
+  ...raw,
+  modelName: String(raw?.modelName ?? pane.modelName),
+  segments: Array.isArray(raw?.segments) ? raw.segments.map(normalizeSegment) : [],
+  // In-flight state never survives a round trip
+  loading: false,
+  translating: false,
+  translationProgress: undefined,
+});
+
+const normalizeGlossary = (raw: any): Glossary => {
+  const terms: Glossary['terms'] = {};
+  for (const [language, list] of Object.entries<any>(raw?.terms ?? {})) {
+    if (!Array.isArray(list)) continue;
+    terms[language] = list
+      .filter((t: any) => t?.source && t?.target)
+      .map((t: any) => ({ source: String(t.source), target: String(t.target) }));
+  }
+  const doNotTranslate = Array.isArray(raw?.doNotTranslate) ? raw.doNotTranslate.filter(Boolean).map(String) : [];
+  return mergeGlossaries(EMPTY_GLOSSARY, { terms, doNotTranslate });
+};
+
+/** Fills defaults for anything missing so older or hand-edited bundles load cleanly. */
+const normalizeSnapshot = (raw: any): SessionSnapshot => {
+  const panes = (Array.isArray(raw?.panes) ? raw.panes : []).map(normalizePane);
+  if (panes.length === 0) throw new Error('Project contains no panes');
+  const rawResults = raw?.results ?? {};
+  const results: Record<string, TranscriptionResult> = {};
+  for (const pane of panes) results[pane.id] = normalizeResult(rawResults[pane.id], pane);
+  return {
+    audio: raw?.audio ? { ...raw.audio, fileName: String(raw.audio.fileName ?? 'audio'), mimeType: String(raw.audio.mimeType ?? 'audio/mp3') } : null,
+    panes,
+    results,
+    targetLang: String(raw?.targetLang ?? 'English'),
+    ...(raw?.sourceLang ? { sourceLang: String(raw.sourceLang) } : {}),
+    glossary: normalizeGlossary(raw?.glossary),
+  };
+};
+
+/**
+ * Parses a bundle file, upgrading it step by step to the current version.
+ * Throws a readable error for foreign files or bundles written by a newer app.
+ */
+export const parseProjectBundle = (content: string): LoadedProject => {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(content);
+  } catch (err) {
+    throw new Error('Not a project file (invalid JSON)');
+  }
+  if (bundle?.format !== PROJECT_BUNDLE_FORMAT) throw new Error('Not a project file (unknown format)');
+
+  const originalVersion = Number(bundle.version);
+  if (!Number.isInteger(originalVersion) || originalVersion < 1) throw new Error('Project file has no valid version');
+  if (originalVersion > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`Project was saved by a newer version of the app (v${originalVersion}, this app reads up to v${PROJECT_BUNDLE_VERSION})`);
+  }
+
+  for (let version = originalVersion; version < PROJECT_BUNDLE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project version ${version}`);
+    bundle = { ...migrate(bundle), version: version + 1 };
+  }
+
+  const snapshot = normalizeSnapshot(bundle.manifest?.snapshot);
+  const audio: BundleAudio | null = bundle.audio?.data
+    ? { fileName: String(bundle.audio.fileName ?? snapshot.audio?.fileName ?? 'audio'), mimeType: String(bundle.audio.mimeType ?? 'audio/mp3'), data: String(bundle.audio.data) }
+    : null;
+
+  return {
+    name: String(bundle.manifest?.name || snapshot.audio?.fileName || 'Imported project'),
+    snapshot: audio ? snapshot : { ...snapshot, audio: null },
+    audio,
+    migratedFrom: originalVersion < PROJECT_BUNDLE_VERSION ? originalVersion : undefined,
+  };
+};
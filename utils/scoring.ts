@@ -0,0 +1,196 @@
+
+import { TranscriptionSegment } from "../types";
+import { bandedAlign, proportionalBand } from "./diff";
+
+export interface NormalizationOptions {
+  lowercase: boolean;
+  stripPunctuation: boolean;
+  normalizeNumbers: boolean; // Spell out digits so "3" and "three" match
+}
+
+export const DEFAULT_NORMALIZATION: NormalizationOptions = {
+  lowercase: true,
+  stripPunctuation: true,
+  normalizeNumbers: true,
+};
+
+export interface ErrorCounts {
+  hits: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  refWords: number;
+}
+
+export interface SegmentScore extends ErrorCounts {
+  wer: number;
+  cer: number;
+  refText: string;  // Reference words aligned to this segment
+}
+
+export interface TranscriptScore extends ErrorCounts {
+  wer: number;
+  cer: number;
+  segments: SegmentScore[];  // Indexed like the hypothesis segments
+}
+
+// Minimum half-width (in words) of the alignment band around the diagonal
+const MIN_BAND_WORDS = 250;
+
+const CJK_OR_WORD = /[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]|[^\s\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]+/g;
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES: [number, string][] = [[1e9, 'billion'], [1e6, 'million'], [1e3, 'thousand'], [100, 'hundred']];
+
+const spellInteger = (n: number): string => {
+  if (n < 20) return ONES[n];
+  if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? ' ' + ONES[n % 10] : '');
+  for (const [value, name] of SCALES) {
+    if (n >= value) {
+      const rest = n % value;
+      return `${spellInteger(Math.floor(n / value))} ${name}${rest ? ' ' + spellInteger(rest) : ''}`;
+    }
+  }
+  return String(n);
+};
+
+/**
+ * Spells out a numeral ("1,250" -> "one thousand two hundred fifty", "3.5" -> "three point five").
+ */
+const spellNumber = (numeral: string): string => {
+  const [intPart, fracPart] = numeral.replace(/,/g, '').split('.');
+  const n = parseInt(intPart, 10);
+  if (isNaN(n) || n >= 1e12) return numeral;
+  const spelled = spellInteger(n);
+  return fracPart ? `${spelled} point ${fracPart.split('').map(d => ONES[+d]).join(' ')}` : spelled;
+};
+
+export const normalizeForScoring = (text: string, options: NormalizationOptions): string => {
+  let result = text;
+  if (options.normalizeNumbers) {
+    result = result.replace(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g, m => ` ${spellNumber(m)} `);
+  }
+  if (options.lowercase) result = result.toLowerCase();
+  if (options.stripPunctuation) {
+    // Keep apostrophes inside words ("don't") but drop quotes around them
+    result = result.replace(/[^\p{L}\p{N}\s']/gu, ' ').replace(/(^|\s)'+|'+(?=\s|$)/g, '$1');
+  }
+  return result;
+};
+
+const tokenize = (text: string): string[] => text.match(CJK_OR_WORD) || [];
+
+/**
+ * Character-level edit distance, used for CER within a single segment.
+ */
+const charEditDistance = (a: string, b: string): number => {
+  let prev = new Array(b.length + 1).fill(0).map((_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const emptyCounts = (): ErrorCounts => ({ hits: 0, substitutions: 0, deletions: 0, insertions: 0, refWords: 0 });
+
+const errorRate = (errors: number, total: number): number => {
+  if (total === 0) return errors > 0 ? 1 : 0;
+  return errors / total;
+};
+
+/**
+ * Scores a hypothesis transcript against a reference text.
+ * Words are aligned once over the whole transcript; CER is then computed per
+ * segment between each segment and the reference words aligned to it, and
+ * summed for the transcript total.
+ */
+export const scoreTranscript = (
+  reference: string,
+  hypothesis: TranscriptionSegment[],
+  options: NormalizationOptions = DEFAULT_NORMALIZATION
+): TranscriptScore => {
+  const refWords = tokenize(normalizeForScoring(reference, options));
+  const hypWords: string[] = [];
+  const hypSeg: number[] = [];
+  hypothesis.forEach((s, segIndex) => {
+    for (const word of tokenize(normalizeForScoring(s.text, options))) {
+      hypWords.push(word);
+      hypSeg.push(segIndex);
+    }
+  });
+
+  const halfWidth = Math.max(MIN_BAND_WORDS, Math.abs(refWords.length - hypWords.length) + 50);
+  const { lo, hi } = proportionalBand(refWords.length, hypWords.length, halfWidth);
+  const steps = bandedAlign(refWords, hypWords, lo, hi);
+
+  const perSegment = hypothesis.map(() => ({ ...emptyCounts(), ref: [] as string[], hyp: [] as string[] }));
+
+  // Deletions have no hypothesis word; attribute them to the segment being read at that point
+  let currentSeg = hypSeg.length > 0 ? hypSeg[0] : -1;
+  for (const step of steps) {
+    if (step.j >= 0) currentSeg = hypSeg[step.j];
+    if (currentSeg === -1) continue;
+    const seg = perSegment[currentSeg];
+
+    if (step.i >= 0) {
+      seg.ref.push(refWords[step.i]);
+      seg.refWords++;
+    }
+    if (step.j >= 0) seg.hyp.push(hypWords[step.j]);
+
+    switch (step.type) {
+      case 'equal': seg.hits++; break;
+      case 'substitute': seg.substitutions++; break;
+      case 'delete': seg.deletions++; break;
+      case 'insert': seg.insertions++; break;
+    }
+  }
+
+  const totals = emptyCounts();
+  let charErrors = 0;
+  let refChars = 0;
+  const segments: SegmentScore[] = perSegment.map(seg => {
+    const refJoined = seg.ref.join('');
+    const charDist = charEditDistance(refJoined, seg.hyp.join(''));
+    charErrors += charDist;
+    refChars += refJoined.length;
+
+    totals.hits += seg.hits;
+    totals.substitutions += seg.substitutions;
+    totals.deletions += seg.deletions;
+    totals.insertions += seg.insertions;
+    totals.refWords += seg.refWords;
+
+    return {
+      hits: seg.hits,
+      substitutions: seg.substitutions,
+      deletions: seg.deletions,
+      insertions: seg.insertions,
+      refWords: seg.refWords,
+      wer: errorRate(seg.substitutions + seg.deletions + seg.insertions, seg.refWords),
+      cer: errorRate(charDist, refJoined.length),
+      refText: seg.ref.join(' '),
+    };
+  });
+
+  // With no hypothesis segments everything in the reference was deleted
+  if (hypothesis.length === 0) {
+    totals.deletions = refWords.length;
+    totals.refWords = refWords.length;
+    charErrors = refWords.join('').length;
+    refChars = charErrors;
+  }
+
+  return {
+    ...totals,
+    wer: errorRate(totals.substitutions + totals.deletions + totals.insertions, totals.refWords),
+    cer: errorRate(charErrors, refChars),
+    segments,
+  };
+};
@@ -0,0 +1,89 @@
+
+import { TranscriptionSegment } from "../types";
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  translations: boolean; // Also search every translation, not only the original text
+}
+
+export const DEFAULT_SEARCH: SearchOptions = { query: '', regex: false, caseSensitive: false, wholeWord: false, translations: true };
+
+/** One match inside a segment. `field` is the translation's language, or null for the original text. */
+export interface TextMatch {
+  index: number;
+  field: string | null;
+  start: number;
+  end: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The query as a global pattern, or an error message when the regex does not compile. */
+export const buildPattern = (options: SearchOptions): { pattern: RegExp | null; error?: string } => {
+  if (!options.query) return { pattern: null };
+  const source = options.regex ? options.query : escapeRegExp(options.query);
+  try {
+    return { pattern: new RegExp(options.wholeWord ? `\\b(?:${source})\\b` : source, options.caseSensitive ? 'g' : 'gi') };
+  } catch (err: any) {
+    return { pattern: null, error: err.message };
+  }
+};
+
+const fieldsOf = (segment: TranscriptionSegment, translations: boolean): [string | null, string][] => [
+  [null, segment.text],
+  ...(translations ? Object.entries(segment.translations ?? {}) : []),
+];
+
+/** Every non-empty match, in segment order and then field order. */
+export const findMatches = (segments: TranscriptionSegment[], pattern: RegExp, translations: boolean): TextMatch[] => {
+  const matches: TextMatch[] = [];
+  segments.forEach((segment, index) => {
+    fieldsOf(segment, translations).forEach(([field, text]) => {
+      for (const match of text.matchAll(pattern)) {
+        if (match[0].length > 0) matches.push({ index, field, start: match.index!, end: match.index! + match[0].length });
+      }
+    });
+  });
+  return matches;
+};
+
+/** A text a replace would change. */
+export interface ReplaceChange {
+  index: number;
+  field: string | null;
+  before: string;
+  after: string;
+}
+
+/**
+ * What replacing every match would do. In regex mode the replacement may use $1, $& and
+ * the other String.replace patterns; otherwise it is inserted as typed.
+ */
+export const previewReplace = (
+  segments: TranscriptionSegment[],
+  pattern: RegExp,
+  replacement: string,
+  options: SearchOptions,
+): ReplaceChange[] => {
+  const changes: ReplaceChange[] = [];
+  segments.forEach((segment, index) => {
+    fieldsOf(segment, options.translations).forEach(([field, before]) => {
+      const after = options.regex ? before.replace(pattern, replacement) : before.replace(pattern, () => replacement);
+      if (after !== before) changes.push({ index, field, before, after });
+    });
+  });
+  return changes;
+};
+
+/** Applies changes from `previewReplace` to the segments they came from. */
+export const applyReplace = (segments: TranscriptionSegment[], changes: ReplaceChange[]): TranscriptionSegment[] => {
+  const next = segments.map(s => ({ ...s, ...(s.translations ? { translations: { ...s.translations } } : {}) }));
+  changes.forEach(({ index, field, after }) => {
+    if (field === null) next[index].text = after;
+    else next[index].translations![field] = after;
+  });
+  return next;
+};
@@ -0,0 +1,146 @@
+
+import { TranscriptionSegment } from "../types";
+import { secondsToTimestamp, timestampToSeconds } from "../services/geminiService";
+import { joinText, splitAtFractions } from "./segmentation";
+
+/** Segment lists before (`past`) and after (`future`) the current one, oldest first. */
+export interface EditHistory {
+  past: TranscriptionSegment[][];
+  future: TranscriptionSegment[][];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const MAX_UNDO = 100;
+
+/** Records `before` as the state to return to; any redo branch is dropped. */
+export const recordEdit = (history: EditHistory, before: TranscriptionSegment[]): EditHistory => ({
+  past: [...history.past.slice(-(MAX_UNDO - 1)), before],
+  future: [],
+});
+
+export const undoEdit = (history: EditHistory, current: TranscriptionSegment[]): { history: EditHistory; segments: TranscriptionSegment[] } | null =>
+  history.past.length === 0 ? null : {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    segments: history.past[history.past.length - 1],
+  };
+
+export const redoEdit = (history: EditHistory, current: TranscriptionSegment[]): { history: EditHistory; segments: TranscriptionSegment[] } | null =>
+  history.future.length === 0 ? null : {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    segments: history.future[0],
+  };
+
+// Times typed into the editor: seconds, MM:SS(.mmm) or HH:MM:SS(.mmm), with a comma or dot for decimals
+const TIME_INPUT = /^\s*\d+([:.,]\d+)*\s*$/;
+
+/** Normalizes a typed time to the HH:MM:SS.mmm form, or throws if it cannot be read. */
+export const parseTimeInput = (value: string): string => {
+  if (!TIME_INPUT.test(value)) throw new Error(`"${value}" is not a time`);
+  return secondsToTimestamp(timestampToSeconds(value));
+};
+
+export interface SegmentEdit {
+  text: string;
+  startTime: string; // As typed
+  endTime: string;
+}
+
+/** Applies the editor's fields to one segment; the end must come after the start. */
+export const updateSegment = (segments: TranscriptionSegment[], index: number, edit: SegmentEdit): TranscriptionSegment[] => {
+  const startTime = parseTimeInput(edit.startTime);
+  const endTime = parseTimeInput(edit.endTime);
+  if (timestampToSeconds(endTime) <= timestampToSeconds(startTime)) throw new Error('The end must come after the start');
+  return segments.map((s, i) => i === index ? { ...s, text: edit.text.trim(), startTime, endTime } : s);
+};
+
+/** Splits the translations at the same relative position as the original. */
+const splitTranslations = (segment: TranscriptionSegment, fraction: number): [Record<string, string>, Record<string, string>] => {
+  const left: Record<string, string> = {};
+  const right: Record<string, string> = {};
+  Object.entries(segment.translations ?? {}).forEach(([language, text]) => {
+    const [a, b] = splitAtFractions(text, [fraction]);
+    if (a) left[language] = a;
+    if (b) right[language] = b;
+  });
+  return [left, right];
+};
+
+const splitInTwo = (segments: TranscriptionSegment[], index: number, leftText: string, rightText: string, at: number, fraction: number): TranscriptionSegment[] => {
+  const segment = segments[index];
+  if (!leftText || !rightText) throw new Error('Nothing to split off there');
+  const [leftTranslations, rightTranslations] = splitTranslations(segment, fraction);
+  const piece = (text: string, startTime: string, endTime: string, translations: Record<string, string>): TranscriptionSegment => ({
+    startTime,
+    endTime,
+    text,
+    ...(Object.keys(translations).length > 0 ? { translations } : {}),
+    ...(segment.speaker ? { speaker: segment.speaker } : {}),
+  });
+  return [
+    ...segments.slice(0, index),
+    piece(leftText, segment.startTime, secondsToTimestamp(at), leftTranslations),
+    piece(rightText, secondsToTimestamp(at), segment.endTime, rightTranslations),
+    ...segments.slice(index + 1),
+  ];
+};
+
+/** Splits at a character position in the text; the time is cut at the same share of the duration. */
+export const splitAtCursor = (segments: TranscriptionSegment[], index: number, text: string, cursor: number): TranscriptionSegment[] => {
+  const segment = segments[index];
+  const start = timestampToSeconds(segment.startTime);
+  const end = timestampToSeconds(segment.endTime);
+  const fraction = text.length > 0 ? cursor / text.length : 0;
+  return splitInTwo(segments, index, text.slice(0, cursor).trim(), text.slice(cursor).trim(), start + (end - start) * fraction, fraction);
+};
+
+/** Splits at a time inside the segment; the text is cut at the nearest word to the same share. */
+export const splitAtTime = (segments: TranscriptionSegment[], index: number, seconds: number): TranscriptionSegment[] => {
+  const segment = segments[index];
+  const start = timestampToSeconds(segment.startTime);
+  const end = timestampToSeconds(segment.endTime);
+  if (seconds <= start || seconds >= end) throw new Error('The playhead is outside this segment');
+  const fraction = (seconds - start) / (end - start);
+  const [left, right] = splitAtFractions(segment.text, [fraction]);
+  return splitInTwo(segments, index, left, right, seconds, fraction);
+};
+
+/** Joins a segment with the one after it, keeping the first one's speaker. */
+export const mergeWithNext = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] => {
+  const segment = segments[index];
+  const next = segments[index + 1];
+  if (!segment || !next) return segments;
+  const languages = Array.from(new Set([...Object.keys(segment.translations ?? {}), ...Object.keys(next.translations ?? {})]));
+  const translations = Object.fromEntries(languages.map(l => [l, joinText(segment.translations?.[l] ?? '', next.translations?.[l] ?? '')]));
+  const merged: TranscriptionSegment = {
+    startTime: segment.startTime,
+    endTime: secondsToTimestamp(Math.max(timestampToSeconds(segment.endTime), timestampToSeconds(next.endTime))),
+    text: joinText(segment.text, next.text),
+    ...(languages.length > 0 ? { translations } : {}),
+    ...(segment.speaker ? { speaker: segment.speaker } : {}),
+  };
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+// Length of a segment inserted where there is no gap to fill; the monotonicity check then
+// starts the next segment after it
+const INSERTED_DURATION = 1;
+
+/** Adds an empty segment after `index`, filling the gap up to the next one. */
+export const insertAfter = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] => {
+  const prev = segments[index];
+  const next = segments[index + 1];
+  const start = timestampToSeconds(prev.endTime);
+  const nextStart = next ? timestampToSeconds(next.startTime) : Infinity;
+  const end = nextStart - start >= 0.1 ? Math.min(nextStart, start + INSERTED_DURATION) : start + INSERTED_DURATION;
+  const inserted: TranscriptionSegment = {
+    startTime: secondsToTimestamp(start),
+    endTime: secondsToTimestamp(end),
+    text: '',
+    ...(prev.speaker ? { speaker: prev.speaker } : {}),
+  };
+  return [...segments.slice(0, index + 1), inserted, ...segments.slice(index + 1)];
+};
+
+export const deleteSegment = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] =>
+  [...segments.slice(0, index), ...segments.slice(index + 1)];
@@ -0,0 +1,289 @@
+
+import { TranscriptionSegment } from "../types";
+import { secondsToTimestamp, timestampToSeconds } from "../services/geminiService";
+import { segmentText } from "./translations";
+
+/** Limits every rebuilt cue has to respect. Durations and gaps are in seconds. */
+export interface SegmentationConstraints {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxCps: number;      // Reading speed in characters per second; 0 turns the check off
+  minDuration: number;
+  maxDuration: number;
+  minGap: number;      // Kept clear between the end of one cue and the start of the next
+}
+
+export interface SegmentationPreset {
+  label: string;
+  constraints: SegmentationConstraints;
+}
+
+export const SEGMENTATION_PRESETS: Record<string, SegmentationPreset> = {
+  // Netflix timed text style guide: 42 characters, 2 lines, 20 cps, 5/6 s minimum, 2 frames apart at 24 fps
+  netflix: {
+    label: 'Netflix',
+    constraints: { maxCharsPerLine: 42, maxLines: 2, maxCps: 20, minDuration: 5 / 6, maxDuration: 7, minGap: 2 / 24 },
+  },
+  // Slower reading speed and narrower lines, as in typical TV subtitling guidelines
+  broadcast: {
+    label: 'Broadcast',
+    constraints: { maxCharsPerLine: 37, maxLines: 2, maxCps: 15, minDuration: 1.2, maxDuration: 6, minGap: 0.12 },
+  },
+  // One short line per cue, timed to the singing rather than to reading speed
+  karaoke: {
+    label: 'Karaoke',
+    constraints: { maxCharsPerLine: 32, maxLines: 1, maxCps: 0, minDuration: 0.5, maxDuration: 10, minGap: 0 },
+  },
+};
+
+const PAUSE_BREAK = 0.8;       // A pause this long always ends a cue
+const SOFT_PAUSE_BREAK = 0.3;  // Once a cue is half full, a shorter pause or a comma ends it too
+const MIN_VISIBLE = 0.1;       // Shortest cue left behind when keeping the gap to an overlapping next cue
+
+// Scripts written without spaces (Chinese, Japanese), which can break between any two characters
+const UNSPACED = /[\u3040-\u30ff\u4e00-\u9fff]/;
+const TOKEN_PATTERN = /(\s*)([\u3040-\u30ff\u4e00-\u9fff]\p{P}*|[^\s\u3040-\u30ff\u4e00-\u9fff]+)/gu;
+const SENTENCE_END = /[.!?\u3002\uff01\uff1f]["'\u201d\u300d)]*$/;
+const CLAUSE_END = /[,;:\u3001\uff0c\uff1b\uff1a\u2014.!?\u3002\uff01\uff1f]["'\u201d\u300d)]*$/;
+
+/**
+ * Breakable units of text: words, or single characters in scripts written without spaces.
+ * A token that followed whitespace keeps one leading space, so joining them restores the text.
+ */
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [, space, body] of text.trim().matchAll(TOKEN_PATTERN)) {
+    tokens.push(tokens.length > 0 && space ? ` ${body}` : body);
+  }
+  return tokens;
+};
+
+/** Joins two pieces of text, leaving out the space between two unspaced-script characters. */
+export const joinText = (a: string, b: string): string => {
+  const left = a.trim();
+  const right = b.trim();
+  if (!left || !right) return left || right;
+  const leftEdge = left.replace(/\p{P}+$/u, '').slice(-1);
+  return UNSPACED.test(leftEdge) && UNSPACED.test(right[0]) ? left + right : `${left} ${right}`;
+};
+
+/**
+ * Splits tokens into at most `maxLines` lines of similar length, preferring breaks after
+ * punctuation, and returns the index of the token each line starts with. A line only runs
+ * over `maxCharsPerLine` when the tokens cannot fit in `maxLines` lines at all.
+ */
+export const lineStarts = (tokens: string[], maxCharsPerLine: number, maxLines: number): number[] => {
+  const n = tokens.length;
+  const offsets = [0];
+  tokens.forEach(t => offsets.push(offsets[offsets.length - 1] + t.length));
+  const width = (i: number, j: number) => offsets[j] - offsets[i] - (tokens[i].startsWith(' ') ? 1 : 0);
+  const clauseBonus = (maxCharsPerLine / 3) ** 2;
+
+  let best: number[] = [0];
+  for (let lines = 1; lines <= Math.min(Math.max(1, maxLines), Math.max(1, n)); lines++) {
+    // cost[l][j]: cheapest way to set tokens[0..j) as l lines; from[l][j] is where the last line starts
+    const cost = Array.from({ length: lines + 1 }, () => new Array<number>(n + 1).fill(Infinity));
+    const from = Array.from({ length: lines + 1 }, () => new Array<number>(n + 1).fill(0));
+    cost[0][0] = 0;
+    for (let l = 1; l <= lines; l++) {
+      for (let j = l; j <= n; j++) {
+        for (let i = l - 1; i < j; i++) {
+          if (cost[l - 1][i] === Infinity) continue;
+          const w = width(i, j);
+          let lineCost = w > maxCharsPerLine ? 1e6 * (w - maxCharsPerLine) : (maxCharsPerLine - w) ** 2;
+          if (j < n && CLAUSE_END.test(tokens[j - 1])) lineCost -= clauseBonus;
+          if (cost[l - 1][i] + lineCost < cost[l][j]) {
+            cost[l][j] = cost[l - 1][i] + lineCost;
+            from[l][j] = i;
+          }
+        }
+      }
+    }
+    const starts: number[] = [];
+    for (let l = lines, j = n; l > 0; l--) {
+      starts.unshift(from[l][j]);
+      j = from[l][j];
+    }
+    best = starts;
+    const fits = starts.every((start, k) => width(start, k + 1 < starts.length ? starts[k + 1] : n) <= maxCharsPerLine);
+    if (fits) break;
+  }
+  return best;
+};
+
+/** Wraps text into balanced lines; see `lineStarts`. */
+export const wrapLines = (text: string, maxCharsPerLine: number, maxLines: number): string[] => {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return [];
+  const starts = lineStarts(tokens, maxCharsPerLine, maxLines);
+  return starts.map((start, k) => tokens.slice(start, starts[k + 1] ?? tokens.length).join('').trim());
+};
+
+/** Whether text of this length and duration makes a valid cue, leaving reading speed to retiming. */
+const fitsCue = (text: string, duration: number, constraints: SegmentationConstraints): boolean =>
+  duration <= constraints.maxDuration + 1e-6
+  && wrapLines(text, constraints.maxCharsPerLine, constraints.maxLines).every(line => line.length <= constraints.maxCharsPerLine);
+
+/** A source segment, or part of one, with its timing in seconds and its text in the measured language. */
+interface Piece {
+  start: number;
+  end: number;
+  text: string;
+  segment: TranscriptionSegment;
+}
+
+/** Cuts text at token boundaries closest to the given fractions of its length. */
+export const splitAtFractions = (text: string, fractions: number[]): string[] => {
+  const tokens = tokenize(text);
+  const total = tokens.join('').length;
+  const cuts: number[] = [];
+  let offset = 0;
+  let k = 0;
+  for (const fraction of fractions) {
+    while (k < tokens.length && offset + tokens[k].length / 2 < fraction * total) offset += tokens[k++].length;
+    cuts.push(k);
+  }
+  return [0, ...cuts].map((start, i) => tokens.slice(start, i < cuts.length ? cuts[i] : tokens.length).join('').trim());
+};
+
+/**
+ * Splits one over-long segment into pieces of similar length, cutting after punctuation where
+ * it can. Each piece is timed by its share of the characters; the segment's other texts
+ * (original or translations) are cut at the same relative positions.
+ */
+const splitPiece = (piece: Piece, constraints: SegmentationConstraints, language: string | null): Piece[] => {
+  const tokens = tokenize(piece.text);
+  const duration = piece.end - piece.start;
+  if (tokens.length < 2 || fitsCue(piece.text, duration, constraints)) return [piece];
+
+  const offsets = [0];
+  tokens.forEach(t => offsets.push(offsets[offsets.length - 1] + t.length));
+  const total = offsets[tokens.length];
+  const capacity = constraints.maxCharsPerLine * Math.max(1, constraints.maxLines);
+
+  let count = Math.min(tokens.length, Math.max(2, Math.ceil(total / capacity), Math.ceil(duration / constraints.maxDuration)));
+  for (; count <= tokens.length; count++) {
+    // Each cut goes to the token boundary nearest its even share, pulled towards clause ends
+    const cuts: number[] = [];
+    for (let c = 1; c < count; c++) {
+      const target = (total * c) / count;
+      let bestK = -1;
+      let bestScore = Infinity;
+      for (let k = (cuts[cuts.length - 1] ?? 0) + 1; k <= tokens.length - (count - c); k++) {
+        const score = Math.abs(offsets[k] - target) - (CLAUSE_END.test(tokens[k - 1]) ? total / (count * 3) : 0);
+        if (score < bestScore) { bestScore = score; bestK = k; }
+      }
+      cuts.push(bestK);
+    }
+
+    const bounds = [0, ...cuts, tokens.length];
+    const fractions = cuts.map(k => offsets[k] / total);
+    const times = [piece.start, ...fractions.map(f => piece.start + duration * f), piece.end];
+    const texts = bounds.slice(0, -1).map((start, i) => tokens.slice(start, bounds[i + 1]).join('').trim());
+    if (count < tokens.length && !texts.every((text, i) => fitsCue(text, times[i + 1] - times[i], constraints))) continue;
+
+    // The same cuts applied to the texts that were not measured
+    const original = language === null ? texts : splitAtFractions(piece.segment.text, fractions);
+    const translated = Object.entries(piece.segment.translations ?? {}).map(([lang, text]) =>
+      [lang, lang === language ? texts : splitAtFractions(text, fractions)] as const);
+
+    return texts.map((text, i) => {
+      const translations = Object.fromEntries(translated.map(([lang, parts]) => [lang, parts[i]]).filter(([, t]) => t));
+      const segment: TranscriptionSegment = {
+        startTime: secondsToTimestamp(times[i]),
+        endTime: secondsToTimestamp(times[i + 1]),
+        text: original[i],
+        ...(Object.keys(translations).length > 0 ? { translations } : {}),
+        ...(piece.segment.speaker ? { speaker: piece.segment.speaker } : {}),
+      };
+      return { start: times[i], end: times[i + 1], text, segment };
+    });
+  }
+  return [piece];
+};
+
+/**
+ * Regroups segments into subtitle cues that respect `constraints`, measuring text in
+ * `language` (null for the original transcript). Word-level segments are gathered into
+ * lines; line-level segments that are too long or too slow to read are split. A cue always
+ * ends at a speaker change, a sentence end or a long pause.
+ *
+ * Returns the segments (or pieces of segments) making up each cue, in order. Only the last
+ * segment of a cue is retimed: its end moves to meet the minimum duration and reading speed
+ * where the next cue leaves room, and back to keep the minimum gap.
+ */
+export const groupIntoCues = (segments: TranscriptionSegment[], constraints: SegmentationConstraints, language: string | null = null): TranscriptionSegment[][] => {
+  const pieces = segments.flatMap(segment => splitPiece({
+    start: timestampToSeconds(segment.startTime),
+    end: timestampToSeconds(segment.endTime),
+    text: segmentText(segment, language),
+    segment,
+  }, constraints, language));
+
+  const groups: Piece[][] = [];
+  let current: Piece[] = [];
+  let currentText = '';
+  for (const piece of pieces) {
+    const prev = current[current.length - 1];
+    if (prev) {
+      const gap = piece.start - prev.end;
+      const mergedText = joinText(currentText, piece.text);
+      const mustBreak = prev.segment.speaker !== piece.segment.speaker
+        || gap > PAUSE_BREAK
+        || SENTENCE_END.test(prev.text.trim())
+        || !fitsCue(mergedText, piece.end - current[0].start, constraints);
+      const softBreak = currentText.length > (constraints.maxCharsPerLine * constraints.maxLines) / 2
+        && (gap > SOFT_PAUSE_BREAK || CLAUSE_END.test(prev.text.trim()));
+      if (!mustBreak && !softBreak) {
+        current.push(piece);
+        currentText = mergedText;
+        continue;
+      }
+      groups.push(current);
+    }
+    current = [piece];
+    currentText = piece.text.trim();
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group, g) => {
+    const start = group[0].start;
+    const last = group[group.length - 1];
+    const chars = group.reduce((text, p) => joinText(text, p.text), '').length;
+    const limit = g + 1 < groups.length ? groups[g + 1][0].start - constraints.minGap : Infinity;
+
+    let end = last.end;
+    const needed = Math.max(constraints.minDuration, constraints.maxCps > 0 ? chars / constraints.maxCps : 0);
+    if (end - start < needed) end = Math.max(end, Math.min(start + needed, limit));
+    end = Math.min(end, start + constraints.maxDuration);
+    if (end > limit) end = Math.max(limit, Math.min(end, start + MIN_VISIBLE));
+
+    const segments = group.map(p => p.segment);
+    if (end !== last.end) segments[segments.length - 1] = { ...last.segment, endTime: secondsToTimestamp(end) };
+    return segments;
+  });
+};
+
+/** Joins the segments of one cue into a single segment, with every text wrapped into lines. */
+export const mergeSegments = (group: TranscriptionSegment[], constraints: SegmentationConstraints): TranscriptionSegment => {
+  const wrap = (text: string) => wrapLines(text, constraints.maxCharsPerLine, constraints.maxLines).join('\n');
+  const languages = Array.from(new Set(group.flatMap(s => Object.keys(s.translations ?? {}))));
+  const translations = Object.fromEntries(languages
+    .map(l => [l, wrap(group.reduce((text, s) => joinText(text, segmentText(s, l)), ''))])
+    .filter(([, text]) => text));
+  const first = group[0];
+  return {
+    startTime: first.startTime,
+    endTime: group[group.length - 1].endTime,
+    text: wrap(group.reduce((text, s) => joinText(text, s.text), '')),
+    ...(Object.keys(translations).length > 0 ? { translations } : {}),
+    ...(first.speaker ? { speaker: first.speaker } : {}),
+  };
+};
+
+/**
+ * Rebuilds segments as subtitle cues that respect `constraints` (see `groupIntoCues`), one
+ * segment per cue with line breaks as "\n". Translations are merged along with the original.
+ */
+export const resegment = (segments: TranscriptionSegment[], constraints: SegmentationConstraints, language: string | null = null): TranscriptionSegment[] =>
+  groupIntoCues(segments, constraints, language).map(group => mergeSegments(group, constraints));
@@ -0,0 +1,45 @@
+
+import { TranscriptionSegment } from "../types";
+
+export interface SpeakerColor {
+  dot: string;
+  badge: string;
+}
+
+// Full class names so Tailwind picks them up
+const SPEAKER_COLORS: SpeakerColor[] = [
+  { dot: 'bg-sky-500', badge: 'bg-sky-100 text-sky-700' },
+  { dot: 'bg-amber-500', badge: 'bg-amber-100 text-amber-700' },
+  { dot: 'bg-emerald-500', badge: 'bg-emerald-100 text-emerald-700' },
+  { dot: 'bg-rose-500', badge: 'bg-rose-100 text-rose-700' },
+  { dot: 'bg-violet-500', badge: 'bg-violet-100 text-violet-700' },
+  { dot: 'bg-teal-500', badge: 'bg-teal-100 text-teal-700' },
+  { dot: 'bg-orange-500', badge: 'bg-orange-100 text-orange-700' },
+  { dot: 'bg-fuchsia-500', badge: 'bg-fuchsia-100 text-fuchsia-700' },
+];
+
+/**
+ * Lists distinct speakers in order of first appearance.
+ */
+export const listSpeakers = (segments: TranscriptionSegment[]): string[] => {
+  const seen = new Set<string>();
+  for (const s of segments) {
+    if (s.speaker) seen.add(s.speaker);
+  }
+  return Array.from(seen);
+};
+
+export const getSpeakerColor = (speaker: string, speakers: string[]): SpeakerColor => {
+  const idx = speakers.indexOf(speaker);
+  return SPEAKER_COLORS[(idx === -1 ? 0 : idx) % SPEAKER_COLORS.length];
+};
+
+/**
+ * Renames a speaker across the whole transcript. Renaming onto an existing
+ * name merges the two speakers.
+ */
+export const renameSpeaker = (segments: TranscriptionSegment[], from: string, to: string): TranscriptionSegment[] => {
+  const name = to.trim();
+  if (!name || name === from) return segments;
+  return segments.map(s => s.speaker === from ? { ...s, speaker: name } : s);
+};
@@ -0,0 +1,223 @@
+
+import { TranscriptionSegment } from "../types";
+import { secondsToTimestamp, timestampToSeconds } from "../services/geminiService";
+import { SEGMENTATION_PRESETS, SegmentationConstraints, mergeSegments, resegment, wrapLines } from "./segmentation";
+import { segmentText, withTranslation } from "./translations";
+
+export type LintRuleId = 'empty' | 'line_length' | 'line_count' | 'reading_speed' | 'min_duration' | 'max_duration' | 'overlap' | 'min_gap';
+
+export type LintSeverity = 'error' | 'warning';
+
+/** A rule's severity in a rule set; 'off' skips the check. */
+export type LintLevel = LintSeverity | 'off';
+
+export const LINT_RULES: Record<LintRuleId, string> = {
+  empty: 'Empty cue',
+  line_length: 'Line length',
+  line_count: 'Line count',
+  reading_speed: 'Reading speed',
+  min_duration: 'Too short',
+  max_duration: 'Too long',
+  overlap: 'Overlap',
+  min_gap: 'Gap',
+};
+
+/** One delivery target: the limits cues must meet and how much each rule matters. */
+export interface LintTarget {
+  label: string;
+  constraints: SegmentationConstraints;
+  levels: Record<LintRuleId, LintLevel>;
+}
+
+const STRICT_LEVELS: Record<LintRuleId, LintLevel> = {
+  empty: 'warning',
+  line_length: 'error',
+  line_count: 'error',
+  reading_speed: 'error',
+  min_duration: 'error',
+  max_duration: 'error',
+  overlap: 'error',
+  min_gap: 'warning',
+};
+
+export const LINT_TARGETS: Record<string, LintTarget> = {
+  netflix: { label: 'Netflix', constraints: SEGMENTATION_PRESETS.netflix.constraints, levels: STRICT_LEVELS },
+  // Netflix lowers reading speed to 17 CPS for children's programmes
+  netflix_kids: { label: 'Netflix (children)', constraints: { ...SEGMENTATION_PRESETS.netflix.constraints, maxCps: 17 }, levels: STRICT_LEVELS },
+  broadcast: {
+    label: 'Broadcast',
+    constraints: SEGMENTATION_PRESETS.broadcast.constraints,
+    levels: { ...STRICT_LEVELS, reading_speed: 'warning', min_gap: 'error' },
+  },
+  karaoke: {
+    label: 'Karaoke',
+    constraints: SEGMENTATION_PRESETS.karaoke.constraints,
+    levels: { ...STRICT_LEVELS, reading_speed: 'off', min_duration: 'warning', max_duration: 'warning', min_gap: 'off' },
+  },
+};
+
+export type LintFix = 'extend' | 'merge' | 'trim' | 'wrap' | 'split' | 'delete';
+
+export const LINT_FIXES: Record<LintFix, string> = {
+  extend: 'Extend',
+  merge: 'Merge with next',
+  trim: 'Trim previous',
+  wrap: 'Rewrap',
+  split: 'Split',
+  delete: 'Delete',
+};
+
+export interface LintIssue {
+  index: number; // Segment index
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  language: string | null; // Text that was checked; null for the original transcript
+  fix?: LintFix;
+}
+
+// Shorter than this is rounding noise in model timestamps, not a real gap or overlap
+const TIMING_TOLERANCE = 0.001;
+
+const seconds = (value: number) => `${value.toFixed(2)} s`;
+
+/** Characters a viewer reads, with line breaks counted as spaces. */
+const readingLength = (text: string): number => text.trim().replace(/\s*\n\s*/g, ' ').length;
+
+/** The end time that satisfies the minimum duration and reading speed, ignoring neighbours. */
+const neededEnd = (start: number, text: string, c: SegmentationConstraints): number =>
+  start + Math.max(c.minDuration, c.maxCps > 0 ? readingLength(text) / c.maxCps : 0);
+
+/** How far a cue's end may move: up to the next cue, less the minimum gap. */
+const endLimit = (segments: TranscriptionSegment[], index: number, c: SegmentationConstraints): number =>
+  index + 1 < segments.length ? timestampToSeconds(segments[index + 1].startTime) - c.minGap : Infinity;
+
+const fitsLines = (text: string, c: SegmentationConstraints): boolean => {
+  const lines = text.trim().split(/\n/);
+  return lines.length <= c.maxLines && lines.every(line => line.trim().length <= c.maxCharsPerLine);
+};
+
+/** Whether merging a cue into the next one gives a cue that still fits its lines and duration. */
+const canMergeWithNext = (segments: TranscriptionSegment[], index: number, c: SegmentationConstraints, language: string | null): boolean => {
+  const next = segments[index + 1];
+  if (!next || next.speaker !== segments[index].speaker) return false;
+  const merged = mergeSegments([segments[index], next], c);
+  const duration = timestampToSeconds(merged.endTime) - timestampToSeconds(merged.startTime);
+  return duration <= c.maxDuration && fitsLines(segmentText(merged, language), c);
+};
+
+/**
+ * Checks every cue against a delivery target. `language` picks the text that is measured
+ * (null for the original transcript). Issues come back in segment order, each with a
+ * one-click fix when one is safe to apply.
+ */
+export const lintSegments = (
+  segments: TranscriptionSegment[],
+  target: LintTarget,
+  language: string | null = null,
+  levels: Record<LintRuleId, LintLevel> = target.levels,
+): LintIssue[] => {
+  const c = target.constraints;
+  const issues: LintIssue[] = [];
+  const report = (index: number, rule: LintRuleId, message: string, fix?: LintFix) => {
+    const level = levels[rule];
+    if (level !== 'off') issues.push({ index, rule, severity: level, message, language, ...(fix ? { fix } : {}) });
+  };
+
+  segments.forEach((segment, index) => {
+    const text = segmentText(segment, language);
+    const start = timestampToSeconds(segment.startTime);
+    const end = timestampToSeconds(segment.endTime);
+    const duration = end - start;
+    const limit = endLimit(segments, index, c);
+
+    if (index > 0) {
+      const prevEnd = timestampToSeconds(segments[index - 1].endTime);
+      const gap = start - prevEnd;
+      if (gap < -TIMING_TOLERANCE) {
+        report(index, 'overlap', `Starts ${seconds(-gap)} before the previous cue ends`, 'trim');
+      } else if (c.minGap > 0 && gap + TIMING_TOLERANCE < c.minGap) {
+        report(index, 'min_gap', `${seconds(Math.max(0, gap))} after the previous cue (min ${seconds(c.minGap)})`, 'trim');
+      }
+    }
+
+    if (!text.trim()) {
+      report(index, 'empty', language ? `No ${language} text` : 'No text', language ? undefined : 'delete');
+      return;
+    }
+
+    const lines = text.trim().split(/\n/);
+    const rewrapFits = wrapLines(text, c.maxCharsPerLine, c.maxLines).every(line => line.length <= c.maxCharsPerLine);
+    const longest = Math.max(...lines.map(line => line.trim().length));
+    if (longest > c.maxCharsPerLine) {
+      report(index, 'line_length', `${longest} characters on one line (max ${c.maxCharsPerLine})`, rewrapFits ? 'wrap' : 'split');
+    }
+    if (lines.length > c.maxLines) {
+      report(index, 'line_count', `${lines.length} lines (max ${c.maxLines})`, rewrapFits ? 'wrap' : 'split');
+    }
+
+    if (duration > c.maxDuration + TIMING_TOLERANCE) {
+      report(index, 'max_duration', `On screen for ${seconds(duration)} (max ${seconds(c.maxDuration)})`, 'split');
+    }
+
+    // Extending is offered only when it fully resolves the rule without crowding the next cue
+    const extendFits = neededEnd(start, text, c) <= limit + TIMING_TOLERANCE;
+    if (duration + TIMING_TOLERANCE < c.minDuration) {
+      const fix = extendFits ? 'extend' : canMergeWithNext(segments, index, c, language) ? 'merge' : undefined;
+      report(index, 'min_duration', `On screen for ${seconds(duration)} (min ${seconds(c.minDuration)})`, fix);
+    } else if (c.maxCps > 0 && duration > 0 && readingLength(text) / duration > c.maxCps) {
+      const cps = readingLength(text) / duration;
+      report(index, 'reading_speed', `${cps.toFixed(1)} characters per second (max ${c.maxCps})`, extendFits ? 'extend' : undefined);
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Applies an issue's fix and returns the new segment list. Fixes only touch the cue at
+ * fault and, for gaps and merges, its neighbour.
+ */
+export const applyLintFix = (segments: TranscriptionSegment[], issue: LintIssue, target: LintTarget): TranscriptionSegment[] => {
+  const c = target.constraints;
+  const { index, language } = issue;
+  const segment = segments[index];
+  if (!segment || !issue.fix) return segments;
+  const replace = (...replacement: TranscriptionSegment[]) => [...segments.slice(0, index), ...replacement, ...segments.slice(index + 1)];
+
+  switch (issue.fix) {
+    case 'extend': {
+      const start = timestampToSeconds(segment.startTime);
+      const end = Math.min(neededEnd(start, segmentText(segment, language), c), endLimit(segments, index, c));
+      if (end <= timestampToSeconds(segment.endTime)) return segments;
+      return replace({ ...segment, endTime: secondsToTimestamp(end) });
+    }
+    case 'trim': {
+      // Pull the previous cue's end back to leave the minimum gap, never past its own start
+      const prev = segments[index - 1];
+      if (!prev) return segments;
+      const end = Math.max(timestampToSeconds(prev.startTime), timestampToSeconds(segment.startTime) - c.minGap);
+      return [...segments.slice(0, index - 1), { ...prev, endTime: secondsToTimestamp(end) }, ...segments.slice(index)];
+    }
+    case 'merge': {
+      const next = segments[index + 1];
+      if (!next) return segments;
+      return [...segments.slice(0, index), mergeSegments([segment, next], c), ...segments.slice(index + 2)];
+    }
+    case 'wrap': {
+      const wrapped = wrapLines(segmentText(segment, language), c.maxCharsPerLine, c.maxLines).join('\n');
+      return replace(language ? withTranslation(segment, language, wrapped) : { ...segment, text: wrapped });
+    }
+    case 'split': {
+      // Re-segmenting may lengthen the last piece for reading speed; it must not run into the next cue
+      const pieces = resegment([segment], c, language);
+      const last = pieces[pieces.length - 1];
+      if (timestampToSeconds(last.endTime) > timestampToSeconds(segment.endTime)) {
+        pieces[pieces.length - 1] = { ...last, endTime: segment.endTime };
+      }
+      return replace(...pieces);
+    }
+    case 'delete':
+      return [...segments.slice(0, index), ...segments.slice(index + 1)];
+  }
+};
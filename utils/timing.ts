@@ -0,0 +1,77 @@
+
+import { TranscriptionSegment } from "../types";
+import { secondsToTimestamp, timestampToSeconds } from "../services/geminiService";
+
+/** A known point in both timelines: where the transcript says something happens, and where it really does. */
+export interface TimingAnchor {
+  transcript: number; // Seconds
+  audio: number;
+}
+
+export interface FrameRate {
+  label: string;
+  fps: number;
+}
+
+// NTSC rates are exact fractions, so repeated conversions do not accumulate error
+export const FRAME_RATES: FrameRate[] = [
+  { label: '23.976', fps: 24000 / 1001 },
+  { label: '24', fps: 24 },
+  { label: '25', fps: 25 },
+  { label: '29.97', fps: 30000 / 1001 },
+  { label: '30', fps: 30 },
+  { label: '50', fps: 50 },
+  { label: '59.94', fps: 60000 / 1001 },
+  { label: '60', fps: 60 },
+];
+
+/**
+ * Applies `map` to every start and end time. Timestamps cannot be negative, so times mapped
+ * before zero stop at zero (and `clampToAudio` drops segments left with no length).
+ */
+const mapTimes = (segments: TranscriptionSegment[], map: (seconds: number) => number): TranscriptionSegment[] =>
+  segments.map(s => ({
+    ...s,
+    startTime: secondsToTimestamp(Math.max(0, map(timestampToSeconds(s.startTime)))),
+    endTime: secondsToTimestamp(Math.max(0, map(timestampToSeconds(s.endTime)))),
+  }));
+
+/** Moves everything by `offset` seconds; negative values pull the transcript earlier. */
+export const shiftSegments = (segments: TranscriptionSegment[], offset: number): TranscriptionSegment[] =>
+  mapTimes(segments, t => t + offset);
+
+/**
+ * Fixes drift that grows steadily over the recording: maps times linearly so both anchors
+ * land where they belong. Times outside the anchors are extrapolated along the same line.
+ */
+export const correctDrift = (segments: TranscriptionSegment[], a: TimingAnchor, b: TimingAnchor): TranscriptionSegment[] => {
+  if (Math.abs(b.transcript - a.transcript) < 0.001) throw new Error('The two anchors need different transcript times');
+  const scale = (b.audio - a.audio) / (b.transcript - a.transcript);
+  return mapTimes(segments, t => a.audio + (t - a.transcript) * scale);
+};
+
+/**
+ * Retimes for a change of frame rate where every frame is kept, e.g. a 23.976 master
+ * played at 25 fps runs about 4% faster, so every time shrinks by 23.976/25.
+ */
+export const convertFrameRate = (segments: TranscriptionSegment[], fromFps: number, toFps: number): TranscriptionSegment[] =>
+  mapTimes(segments, t => (t * fromFps) / toFps);
+
+/** Rounds starts and ends to the nearest frame, keeping every segment at least one frame long. */
+export const snapToFrames = (segments: TranscriptionSegment[], fps: number): TranscriptionSegment[] =>
+  segments.map(s => {
+    const startFrame = Math.round(timestampToSeconds(s.startTime) * fps);
+    const endFrame = Math.max(startFrame + 1, Math.round(timestampToSeconds(s.endTime) * fps));
+    return { ...s, startTime: secondsToTimestamp(startFrame / fps), endTime: secondsToTimestamp(endFrame / fps) };
+  });
+
+/**
+ * Keeps segments inside the audio: those with no length left or starting after `duration`
+ * are dropped, the rest have their ends cut back. Without a duration nothing is cut.
+ */
+export const clampToAudio = (segments: TranscriptionSegment[], duration?: number): TranscriptionSegment[] => {
+  const limit = duration !== undefined && Number.isFinite(duration) ? duration : Infinity;
+  return segments
+    .filter(s => timestampToSeconds(s.endTime) > 0 && timestampToSeconds(s.startTime) < limit)
+    .map(s => timestampToSeconds(s.endTime) > limit ? { ...s, endTime: secondsToTimestamp(limit) } : s);
+};
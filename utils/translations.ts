@@ -0,0 +1,70 @@
+
+import { TranscriptionSegment } from "../types";
+
+// Segments imported from older JSON files carry one translation without saying which language
+export const UNKNOWN_LANGUAGE = 'Translation';
+
+// A pane shows the transcript plus at most this many translations
+export const MAX_SHOWN_LANGUAGES = 2;
+
+/** The segment's text in `language`, or the original transcript when `language` is null. */
+export const segmentText = (segment: TranscriptionSegment, language: string | null): string =>
+  language ? segment.translations?.[language] ?? '' : segment.text;
+
+/** Languages with at least one translated segment, in order of first appearance. */
+export const listTranslationLanguages = (segments: TranscriptionSegment[]): string[] => {
+  const seen = new Set<string>();
+  for (const s of segments) {
+    if (s.translations) Object.keys(s.translations).forEach(language => seen.add(language));
+  }
+  return Array.from(seen);
+};
+
+/** Sets or (with `undefined`) removes one language's translation, leaving the others alone. */
+export const withTranslation = (segment: TranscriptionSegment, language: string, text: string | undefined): TranscriptionSegment => {
+  const { [language]: _, ...others } = segment.translations ?? {};
+  const translations = text === undefined ? others : { ...others, [language]: text };
+  const { translations: __, ...rest } = segment;
+  return Object.keys(translations).length > 0 ? { ...rest, translations } : rest;
+};
+
+/**
+ * The translations a pane displays. Panes that never picked any (e.g. from older sessions)
+ * show the first available language.
+ */
+export const shownTranslations = (shown: string[] | undefined, available: string[]): string[] =>
+  shown === undefined ? available.slice(0, 1) : shown.filter(l => available.includes(l));
+
+/**
+ * Adds `language` to the front of a pane's shown translations, dropping the oldest beyond the limit.
+ */
+export const showLanguage = (shown: string[] | undefined, language: string): string[] =>
+  [language, ...(shown ?? []).filter(l => l !== language)].slice(0, MAX_SHOWN_LANGUAGES);
+
+/**
+ * Converts a segment from the single-`translatedText` shape, filing the translation under
+ * `language`. Segments already keyed by language pass through unchanged.
+ */
+export const upgradeLegacySegment = (raw: any, language: string): any => {
+  if (!raw || typeof raw.translatedText !== 'string') return raw;
+  const { translatedText, ...rest } = raw;
+  return translatedText ? { ...rest, translations: { ...rest.translations, [language]: translatedText } } : rest;
+};
+
+/**
+ * Upgrades a stored session snapshot from single translations to translations keyed by
+ * language. Each pane's translation is filed under the language it was made in when known,
+ * otherwise under the session's target language.
+ */
+export const upgradeLegacyTranslations = (snapshot: any): any => {
+  if (!snapshot?.results) return snapshot;
+  const results: Record<string, any> = {};
+  for (const [id, result] of Object.entries<any>(snapshot.results)) {
+    const { translationLanguage, ...rest } = result ?? {};
+    const language = translationLanguage || snapshot.targetLang || UNKNOWN_LANGUAGE;
+    results[id] = Array.isArray(rest.segments)
+      ? { ...rest, segments: rest.segments.map((s: any) => upgradeLegacySegment(s, language)) }
+      : rest;
+  }
+  return { ...snapshot, results };
+};
@@ -0,0 +1,235 @@
+
+import { TranscriptionSegment } from "../types";
+import { secondsToTimestamp, timestampToSeconds } from "../services/geminiService";
+import { decodeAudioFile, mixToMono } from "./audio";
+
+/** A stretch of audio the detector heard as speech, in seconds. */
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+export interface VadOptions {
+  thresholdDb: number;   // How far above the noise floor a frame must be to start speech
+  minSpeech: number;     // Seconds; shorter bursts are clicks or breaths
+  minSilence: number;    // Seconds; shorter pauses stay inside one region
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  thresholdDb: 12,
+  minSpeech: 0.15,
+  minSilence: 0.25,
+};
+
+// 8kHz still covers the telephone band that carries most of the speech energy
+const VAD_SAMPLE_RATE = 8000;
+const FRAME_SIZE = 256;          // 32ms at 8kHz; a power of two for the FFT
+const HOP_SECONDS = 0.01;
+const SPEECH_BAND: [number, number] = [300, 3000];
+// Frames quieter than this many dB below the loudest are never speech, however low the floor
+const MAX_DYNAMIC_RANGE_DB = 50;
+
+/** In-place radix-2 FFT; `re.length` must be a power of two. */
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+interface FrameFeatures {
+  energyDb: Float32Array;
+  voiced: Uint8Array; // 1 where the spectrum looks like speech rather than noise
+}
+
+/**
+ * Per-frame loudness plus a spectral test: speech puts most of its power in the speech band
+ * and is peaky there, while hiss and rumble are flat or sit outside it.
+ */
+const frameFeatures = (samples: Float32Array, sampleRate: number): FrameFeatures => {
+  const hop = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+  const count = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / hop) + 1);
+  const energyDb = new Float32Array(count);
+  const voiced = new Uint8Array(count);
+  const window = new Float32Array(FRAME_SIZE).map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+  const binHz = sampleRate / FRAME_SIZE;
+  const lowBin = Math.max(1, Math.floor(SPEECH_BAND[0] / binHz));
+  const highBin = Math.min(FRAME_SIZE / 2, Math.ceil(SPEECH_BAND[1] / binHz));
+
+  for (let f = 0; f < count; f++) {
+    const offset = f * hop;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = samples[offset + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    for (let k = 1; k <= FRAME_SIZE / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      total += power;
+      if (k >= lowBin && k <= highBin) {
+        band += power;
+        logSum += Math.log(power + 1e-12);
+      }
+    }
+    const bins = highBin - lowBin + 1;
+    const flatness = Math.exp(logSum / bins) / (band / bins + 1e-12);
+    energyDb[f] = 10 * Math.log10(total / FRAME_SIZE + 1e-12);
+    voiced[f] = band / (total + 1e-12) > 0.4 || flatness < 0.3 ? 1 : 0;
+  }
+  return { energyDb, voiced };
+};
+
+/** Value below which `fraction` of the values fall. */
+const percentile = (values: Float32Array, fraction: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+/**
+ * Finds speech in mono samples. The noise floor is estimated from the quietest frames, so
+ * the threshold adapts to each recording; hysteresis keeps a region open through the softer
+ * ends of words. Steady music or loud background noise reads as speech.
+ */
+export const detectSpeech = (samples: Float32Array, sampleRate: number, options: VadOptions = DEFAULT_VAD_OPTIONS): SpeechRegion[] => {
+  const { energyDb, voiced } = frameFeatures(samples, sampleRate);
+  if (energyDb.length === 0) return [];
+  const hop = Math.max(1, Math.round(sampleRate * HOP_SECONDS)) / sampleRate;
+  const frameOffset = FRAME_SIZE / sampleRate / 2; // Frame times are taken at the frame's centre
+
+  const floor = Math.max(percentile(energyDb, 0.1), percentile(energyDb, 0.99) - MAX_DYNAMIC_RANGE_DB);
+  const onDb = floor + options.thresholdDb;
+  const offDb = floor + options.thresholdDb / 2;
+
+  const raw: SpeechRegion[] = [];
+  let openedAt = -1;
+  for (let f = 0; f < energyDb.length; f++) {
+    if (openedAt < 0) {
+      if (energyDb[f] > onDb && voiced[f]) openedAt = f;
+    } else if (energyDb[f] < offDb) {
+      raw.push({ start: openedAt * hop + frameOffset, end: f * hop + frameOffset });
+      openedAt = -1;
+    }
+  }
+  if (openedAt >= 0) raw.push({ start: openedAt * hop + frameOffset, end: samples.length / sampleRate });
+
+  const merged: SpeechRegion[] = [];
+  raw.forEach(region => {
+    const last = merged[merged.length - 1];
+    if (last && region.start - last.end < options.minSilence) last.end = region.end;
+    else merged.push({ ...region });
+  });
+  return merged.filter(region => region.end - region.start >= options.minSpeech);
+};
+
+/** Decodes the audio and runs the detector over it, entirely in the browser. */
+export async function analyzeSpeech(base64: string, options: VadOptions = DEFAULT_VAD_OPTIONS): Promise<SpeechRegion[]> {
+  const buffer = await decodeAudioFile(base64, VAD_SAMPLE_RATE);
+  return detectSpeech(mixToMono(buffer), buffer.sampleRate, options);
+}
+
+/**
+ * For each speech edge, the index of the closest segment time within `tolerance`. Each edge
+ * moves at most one segment, so a run of word timings near an onset does not collapse onto it.
+ */
+const claimEdges = (times: number[], edges: number[], tolerance: number): Map<number, number> => {
+  const claimed = new Map<number, number>();
+  const distance = new Map<number, number>();
+  edges.forEach(edge => {
+    let best = -1;
+    times.forEach((t, i) => {
+      const d = Math.abs(t - edge);
+      if (d <= tolerance && (best < 0 || d < Math.abs(times[best] - edge))) best = i;
+    });
+    if (best >= 0 && (!distance.has(best) || Math.abs(times[best] - edge) < distance.get(best)!)) {
+      claimed.set(best, edge);
+      distance.set(best, Math.abs(times[best] - edge));
+    }
+  });
+  return claimed;
+};
+
+// Shortest segment a snap may leave; otherwise both edges stay where they were
+const MIN_SNAPPED_DURATION = 0.05;
+
+/**
+ * Moves segment starts to the nearest speech onset and ends to the nearest offset, when one
+ * lies within `tolerance` seconds. Everything else is left alone.
+ */
+export const snapToSpeech = (segments: TranscriptionSegment[], regions: SpeechRegion[], tolerance: number): TranscriptionSegment[] => {
+  const starts = claimEdges(segments.map(s => timestampToSeconds(s.startTime)), regions.map(r => r.start), tolerance);
+  const ends = claimEdges(segments.map(s => timestampToSeconds(s.endTime)), regions.map(r => r.end), tolerance);
+  return segments.map((s, i) => {
+    if (!starts.has(i) && !ends.has(i)) return s;
+    const start = starts.get(i) ?? timestampToSeconds(s.startTime);
+    const end = ends.get(i) ?? timestampToSeconds(s.endTime);
+    if (end - start < MIN_SNAPPED_DURATION) return s;
+    return { ...s, startTime: secondsToTimestamp(start), endTime: secondsToTimestamp(end) };
+  });
+};
+
+export interface SpeechReport {
+  silent: number[];           // Indices of segments with (almost) no speech under them
+  uncovered: SpeechRegion[];  // Speech that no segment spans
+}
+
+// Overlap below this is the detector's edge slop, not speech inside the segment
+const SILENT_OVERLAP = 0.05;
+// Uncovered speech shorter than this is usually a breath or the tail of a neighbouring word
+const MIN_UNCOVERED = 0.5;
+
+/** Compares segments with detected speech in both directions. */
+export const checkSpeechCoverage = (segments: TranscriptionSegment[], regions: SpeechRegion[]): SpeechReport => {
+  const spans = segments.map(s => ({ start: timestampToSeconds(s.startTime), end: timestampToSeconds(s.endTime) }));
+
+  const silent: number[] = [];
+  spans.forEach((span, index) => {
+    const overlap = regions.reduce((sum, r) => sum + Math.max(0, Math.min(span.end, r.end) - Math.max(span.start, r.start)), 0);
+    if (overlap <= SILENT_OVERLAP) silent.push(index);
+  });
+
+  const covered = [...spans].sort((a, b) => a.start - b.start);
+  const uncovered: SpeechRegion[] = [];
+  regions.forEach(region => {
+    let cursor = region.start;
+    for (const span of covered) {
+      if (span.end <= cursor) continue;
+      if (span.start >= region.end) break;
+      if (span.start - cursor >= MIN_UNCOVERED) uncovered.push({ start: cursor, end: span.start });
+      cursor = Math.max(cursor, span.end);
+      if (cursor >= region.end) break;
+    }
+    if (region.end - cursor >= MIN_UNCOVERED) uncovered.push({ start: cursor, end: region.end });
+  });
+
+  return { silent, uncovered };
+};